@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+interface DateTimePickerProps {
+  id?: string;
+  value?: Date;
+  onChange: (value: Date | undefined) => void;
+  placeholder?: string;
+  // Days before this are disabled in the calendar
+  fromDate?: Date;
+}
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Calendar date plus a local time of day
+export function DateTimePicker({
+  id,
+  value,
+  onChange,
+  placeholder = "Pick a date",
+  fromDate,
+}: DateTimePickerProps) {
+  const time = value ? format(value, "HH:mm") : "00:00";
+
+  const selectDay = (day: Date | undefined) => {
+    if (!day) return onChange(undefined);
+    const [hours, minutes] = time.split(":").map(Number);
+    const next = new Date(day);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  const selectTime = (nextTime: string) => {
+    if (!value || !nextTime) return;
+    const [hours, minutes] = nextTime.split(":").map(Number);
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex gap-2 mt-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            variant="outline"
+            className={cn(
+              "flex-1 justify-start text-left font-normal",
+              !value && "text-muted-foreground",
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={selectDay}
+            disabled={fromDate ? { before: startOfDay(fromDate) } : undefined}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        aria-label="Time"
+        value={time}
+        disabled={!value}
+        onChange={(e) => selectTime(e.target.value)}
+        className="w-28"
+      />
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Clear"
+          onClick={() => onChange(undefined)}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
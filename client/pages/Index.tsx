@@ -5,14 +5,61 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Copy, Link, Clock, CheckCircle, AlertCircle } from "lucide-react";
+import { DateTimePicker } from "@/components/DateTimePicker";
 import { useToast } from "@/hooks/use-toast";
+import { CachePolicy, OpenGraphOverrides, PlatformDestinations, RedirectType, UtmParams } from "@shared/api";
+
+const REDIRECT_TYPE_OPTIONS: { value: RedirectType; label: string }[] = [
+  { value: 302, label: '302 Found (temporary)' },
+  { value: 307, label: '307 Temporary Redirect' },
+  { value: 301, label: '301 Moved Permanently' },
+  { value: 308, label: '308 Permanent Redirect' },
+];
+
+const PLATFORM_OPTIONS: { value: keyof PlatformDestinations; label: string; placeholder: string }[] = [
+  { value: 'ios', label: 'iOS', placeholder: 'https://apps.apple.com/app/id123456789' },
+  { value: 'android', label: 'Android', placeholder: 'https://play.google.com/store/apps/details?id=com.example' },
+  { value: 'desktop', label: 'Desktop', placeholder: 'https://example.com/download' },
+];
+
+const UTM_FIELDS: (keyof UtmParams)[] = ['source', 'medium', 'campaign', 'term', 'content'];
+
+const CACHE_POLICY_OPTIONS: { value: CachePolicy; label: string }[] = [
+  { value: 'no-store', label: 'Never cache (count every click)' },
+  { value: 'private', label: 'Browser cache (1 hour)' },
+  { value: 'public', label: 'Browser and CDN cache (1 hour)' },
+];
 
 interface UrlEntry {
   id: string;
   originalUrl: string;
   validityMinutes: number;
+  // Optional activation window; endsAt replaces validityMinutes
+  startsAt?: Date;
+  endsAt?: Date;
   customShortcode: string;
+  password: string;
+  expiredRedirectUrl: string;
+  platformDestinations: PlatformDestinations;
+  countryRules: { country: string; url: string }[];
+  // A/B split; weights as typed
+  variants: { url: string; weight: string }[];
+  stickyVariants: boolean;
+  forwardQuery: boolean;
+  forwardPath: boolean;
+  template: boolean;
+  interstitial: boolean;
+  // Empty for no auto-continue
+  interstitialSeconds: string;
+  utm: UtmParams;
+  openGraph: OpenGraphOverrides;
+  // Empty for unlimited
+  maxClicks: string;
+  redirectType: RedirectType;
+  cachePolicy: CachePolicy;
   shortenedUrl?: string;
   expiryTime?: Date;
   isProcessing?: boolean;
@@ -21,7 +68,7 @@ interface UrlEntry {
 
 export default function Index() {
   const [urlEntries, setUrlEntries] = useState<UrlEntry[]>([
-    { id: '1', originalUrl: '', validityMinutes: 30, customShortcode: '' }
+    { id: '1', originalUrl: '', validityMinutes: 30, customShortcode: '', password: '', expiredRedirectUrl: '', platformDestinations: {}, countryRules: [], variants: [], stickyVariants: true, forwardQuery: false, forwardPath: false, template: false, interstitial: false, interstitialSeconds: '', utm: {}, openGraph: {}, maxClicks: '', redirectType: 302, cachePolicy: 'no-store' }
   ]);
   const { toast } = useToast();
 
@@ -31,7 +78,23 @@ export default function Index() {
         id: Date.now().toString(),
         originalUrl: '',
         validityMinutes: 30,
-        customShortcode: ''
+        customShortcode: '',
+        password: '',
+        expiredRedirectUrl: '',
+        platformDestinations: {},
+        countryRules: [],
+        variants: [],
+        stickyVariants: true,
+        forwardQuery: false,
+        forwardPath: false,
+        template: false,
+        interstitial: false,
+        interstitialSeconds: '',
+        utm: {},
+        openGraph: {},
+        maxClicks: '',
+        redirectType: 302,
+        cachePolicy: 'no-store'
       }]);
     }
   };
@@ -66,11 +129,53 @@ export default function Index() {
       return;
     }
 
+    if (entry.expiredRedirectUrl && !validateUrl(entry.expiredRedirectUrl)) {
+      updateUrlEntry(entry.id, 'error', 'Invalid fallback URL format');
+      return;
+    }
+
+    const invalidPlatform = PLATFORM_OPTIONS.find(({ value }) => {
+      const destination = entry.platformDestinations[value];
+      return destination && !validateUrl(destination);
+    });
+    if (invalidPlatform) {
+      updateUrlEntry(entry.id, 'error', `Invalid ${invalidPlatform.label} destination`);
+      return;
+    }
+
+    const countryRules = entry.countryRules.filter((rule) => rule.country || rule.url);
+    const invalidRule = countryRules.find((rule) => !/^[a-zA-Z]{2}$/.test(rule.country) || !validateUrl(rule.url));
+    if (invalidRule) {
+      updateUrlEntry(entry.id, 'error', 'Country rules need a two-letter country code and a valid URL');
+      return;
+    }
+
+    if (entry.variants.length > 0 && entry.variants.some((variant) => !validateUrl(variant.url) || !(Number(variant.weight) > 0))) {
+      updateUrlEntry(entry.id, 'error', 'Each variant needs a valid URL and a positive weight');
+      return;
+    }
+
     if (entry.customShortcode && !validateShortcode(entry.customShortcode)) {
       updateUrlEntry(entry.id, 'error', 'Shortcode must be alphanumeric');
       return;
     }
 
+    if (entry.password && (entry.password.length < 4 || entry.password.length > 128)) {
+      updateUrlEntry(entry.id, 'error', 'Password must be between 4 and 128 characters');
+      return;
+    }
+
+    const maxClicks = entry.maxClicks ? Number(entry.maxClicks) : undefined;
+    if (maxClicks !== undefined && (maxClicks <= 0 || !Number.isInteger(maxClicks))) {
+      updateUrlEntry(entry.id, 'error', 'Max clicks must be a positive integer');
+      return;
+    }
+
+    if (entry.endsAt && (entry.endsAt <= new Date() || (entry.startsAt && entry.endsAt <= entry.startsAt))) {
+      updateUrlEntry(entry.id, 'error', 'End must be in the future and after the start');
+      return;
+    }
+
     if (entry.validityMinutes <= 0 || !Number.isInteger(entry.validityMinutes)) {
       updateUrlEntry(entry.id, 'error', 'Validity must be a positive integer');
       return;
@@ -86,7 +191,29 @@ export default function Index() {
         body: JSON.stringify({
           originalUrl: entry.originalUrl,
           validityMinutes: entry.validityMinutes,
-          customShortcode: entry.customShortcode || undefined
+          activeFrom: entry.startsAt?.toISOString(),
+          expiryTime: entry.endsAt?.toISOString(),
+          customShortcode: entry.customShortcode || undefined,
+          password: entry.password || undefined,
+          maxClicks,
+          expiredRedirectUrl: entry.expiredRedirectUrl || undefined,
+          platformDestinations: entry.platformDestinations,
+          countryDestinations: countryRules.length > 0
+            ? Object.fromEntries(countryRules.map((rule) => [rule.country.toUpperCase(), rule.url]))
+            : undefined,
+          variants: entry.variants.length > 0
+            ? entry.variants.map((variant) => ({ url: variant.url, weight: Number(variant.weight) }))
+            : undefined,
+          stickyVariants: entry.variants.length > 0 ? entry.stickyVariants : undefined,
+          forwardQuery: entry.forwardQuery || undefined,
+          forwardPath: entry.forwardPath || undefined,
+          template: entry.template || undefined,
+          interstitial: entry.interstitial || undefined,
+          interstitialSeconds: entry.interstitial && entry.interstitialSeconds ? Number(entry.interstitialSeconds) : undefined,
+          utm: Object.values(entry.utm).some(Boolean) ? entry.utm : undefined,
+          openGraph: Object.values(entry.openGraph).some(Boolean) ? entry.openGraph : undefined,
+          redirectType: entry.redirectType,
+          cachePolicy: entry.cachePolicy
         })
       });
 
@@ -175,11 +302,42 @@ export default function Index() {
                       min="1"
                       value={entry.validityMinutes}
                       onChange={(e) => updateUrlEntry(entry.id, 'validityMinutes', parseInt(e.target.value) || 30)}
+                      disabled={Boolean(entry.endsAt)}
                       className="mt-1"
                     />
                   </div>
                 </div>
 
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor={`starts-at-${entry.id}`}>Start (optional)</Label>
+                    <DateTimePicker
+                      id={`starts-at-${entry.id}`}
+                      value={entry.startsAt}
+                      onChange={(value) => updateUrlEntry(entry.id, 'startsAt', value)}
+                      placeholder="Immediately"
+                      fromDate={new Date()}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`ends-at-${entry.id}`}>End (optional)</Label>
+                    <DateTimePicker
+                      id={`ends-at-${entry.id}`}
+                      value={entry.endsAt}
+                      onChange={(value) => updateUrlEntry(entry.id, 'endsAt', value)}
+                      placeholder="After validity period"
+                      fromDate={entry.startsAt ?? new Date()}
+                    />
+                  </div>
+                </div>
+                {(entry.startsAt || entry.endsAt) && (
+                  <p className="text-sm text-gray-500 -mt-2">
+                    {entry.endsAt
+                      ? 'The link redirects only between the start and end times.'
+                      : 'Validity is counted from the start time. Visitors see a countdown until then.'}
+                  </p>
+                )}
+
                 <div>
                   <Label htmlFor={`shortcode-${entry.id}`}>Custom Shortcode (optional)</Label>
                   <Input
@@ -194,6 +352,326 @@ export default function Index() {
                   </p>
                 </div>
 
+                <div>
+                  <p className="text-sm font-medium">Device Targeting (optional)</p>
+                  <div className="grid md:grid-cols-3 gap-4">
+                    {PLATFORM_OPTIONS.map((option) => (
+                      <div key={option.value}>
+                        <Label htmlFor={`platform-${option.value}-${entry.id}`} className="text-gray-600">{option.label}</Label>
+                        <Input
+                          id={`platform-${option.value}-${entry.id}`}
+                          placeholder={option.placeholder}
+                          value={entry.platformDestinations[option.value] ?? ''}
+                          onChange={(e) => updateUrlEntry(entry.id, 'platformDestinations', { ...entry.platformDestinations, [option.value]: e.target.value })}
+                          className="mt-1"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Send each platform somewhere different, such as an app store or deep link. Others use the original URL.
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium">Country Rules (optional)</p>
+                  {entry.countryRules.map((rule, ruleIndex) => {
+                    const updateRule = (changes: Partial<typeof rule>) =>
+                      updateUrlEntry(entry.id, 'countryRules', entry.countryRules.map((existing, i) =>
+                        i === ruleIndex ? { ...existing, ...changes } : existing
+                      ));
+                    return (
+                      <div key={ruleIndex} className="flex gap-2 mt-1">
+                        <Input
+                          aria-label="Country code"
+                          placeholder="DE"
+                          maxLength={2}
+                          value={rule.country}
+                          onChange={(e) => updateRule({ country: e.target.value.toUpperCase() })}
+                          className="w-20"
+                        />
+                        <Input
+                          aria-label="Destination"
+                          placeholder="https://example.de"
+                          value={rule.url}
+                          onChange={(e) => updateRule({ url: e.target.value })}
+                        />
+                        <Button
+                          variant="ghost"
+                          onClick={() => updateUrlEntry(entry.id, 'countryRules', entry.countryRules.filter((_, i) => i !== ruleIndex))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => updateUrlEntry(entry.id, 'countryRules', [...entry.countryRules, { country: '', url: '' }])}
+                  >
+                    Add Country Rule
+                  </Button>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Visitors from these countries go to the matching destination instead.
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium">A/B Split (optional)</p>
+                  {entry.variants.map((variant, variantIndex) => {
+                    const updateVariant = (changes: Partial<typeof variant>) =>
+                      updateUrlEntry(entry.id, 'variants', entry.variants.map((existing, i) =>
+                        i === variantIndex ? { ...existing, ...changes } : existing
+                      ));
+                    return (
+                      <div key={variantIndex} className="flex items-center gap-2 mt-1">
+                        <Badge variant="outline">{String.fromCharCode(65 + variantIndex)}</Badge>
+                        <Input
+                          aria-label="Variant URL"
+                          placeholder="https://example.com/landing-a"
+                          value={variant.url}
+                          onChange={(e) => updateVariant({ url: e.target.value })}
+                        />
+                        <Input
+                          aria-label="Weight"
+                          type="number"
+                          min="1"
+                          value={variant.weight}
+                          onChange={(e) => updateVariant({ weight: e.target.value })}
+                          className="w-20"
+                        />
+                        <Button
+                          variant="ghost"
+                          onClick={() => updateUrlEntry(entry.id, 'variants', entry.variants.filter((_, i) => i !== variantIndex))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <div className="flex items-center gap-4 mt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={entry.variants.length >= 10}
+                      onClick={() => updateUrlEntry(entry.id, 'variants', entry.variants.length === 0
+                        ? [{ url: entry.originalUrl, weight: '50' }, { url: '', weight: '50' }]
+                        : [...entry.variants, { url: '', weight: '50' }])}
+                    >
+                      Add Variant
+                    </Button>
+                    {entry.variants.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`sticky-${entry.id}`}
+                          checked={entry.stickyVariants}
+                          onCheckedChange={(checked) => updateUrlEntry(entry.id, 'stickyVariants', checked === true)}
+                        />
+                        <Label htmlFor={`sticky-${entry.id}`} className="text-gray-600">Keep returning visitors on the same variant</Label>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Split traffic between destinations by weight, e.g. 70 / 30. Needs at least two variants.
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium">UTM Tags (optional)</p>
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mt-1">
+                    {UTM_FIELDS.map((field) => (
+                      <Input
+                        key={field}
+                        aria-label={`utm_${field}`}
+                        placeholder={`utm_${field}`}
+                        value={entry.utm[field] ?? ''}
+                        onChange={(e) => updateUrlEntry(entry.id, 'utm', { ...entry.utm, [field]: e.target.value })}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id={`forward-query-${entry.id}`}
+                      checked={entry.forwardQuery}
+                      onCheckedChange={(checked) => updateUrlEntry(entry.id, 'forwardQuery', checked === true)}
+                    />
+                    <Label htmlFor={`forward-query-${entry.id}`} className="text-gray-600">Pass visitor query parameters through to the destination</Label>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id={`forward-path-${entry.id}`}
+                      checked={entry.forwardPath}
+                      disabled={entry.template}
+                      onCheckedChange={(checked) => updateUrlEntry(entry.id, 'forwardPath', checked === true)}
+                    />
+                    <Label htmlFor={`forward-path-${entry.id}`} className="text-gray-600">
+                      Forward extra path segments (/r/{entry.customShortcode || 'docs'}/api/v2 adds /api/v2 to the destination)
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Checkbox
+                      id={`template-${entry.id}`}
+                      checked={entry.template}
+                      disabled={entry.forwardPath}
+                      onCheckedChange={(checked) => updateUrlEntry(entry.id, 'template', checked === true)}
+                    />
+                    <Label htmlFor={`template-${entry.id}`} className="text-gray-600">
+                      Template link: fill {'{1}'}, {'{2}'} or {'{*}'} in the URL from the path, e.g. https://tracker.example.com/issues/{'{1}'}
+                    </Label>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Added at redirect time. Parameters already in the destination URL are never duplicated.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor={`expired-redirect-${entry.id}`}>Fallback URL after expiry (optional)</Label>
+                  <Input
+                    id={`expired-redirect-${entry.id}`}
+                    placeholder="https://example.com/campaign-ended"
+                    value={entry.expiredRedirectUrl}
+                    onChange={(e) => updateUrlEntry(entry.id, 'expiredRedirectUrl', e.target.value)}
+                    className="mt-1"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Visitors are sent here once the link expires instead of seeing an error.
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`interstitial-${entry.id}`}
+                      checked={entry.interstitial}
+                      onCheckedChange={(checked) => updateUrlEntry(entry.id, 'interstitial', checked === true)}
+                    />
+                    <Label htmlFor={`interstitial-${entry.id}`}>Always show the destination before redirecting</Label>
+                  </div>
+                  {entry.interstitial && (
+                    <Input
+                      aria-label="Auto-continue after seconds"
+                      type="number"
+                      min="1"
+                      max="60"
+                      placeholder="Auto-continue after (seconds, optional)"
+                      value={entry.interstitialSeconds}
+                      onChange={(e) => updateUrlEntry(entry.id, 'interstitialSeconds', e.target.value)}
+                      className="mt-2"
+                    />
+                  )}
+                  <p className="text-sm text-gray-500 mt-1">
+                    Visitors see where the link goes and click Continue. Anyone can preview a link at /p/{entry.customShortcode || 'shortcode'}.
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium">Social Preview (optional)</p>
+                  <Input
+                    aria-label="Preview title"
+                    placeholder="Title"
+                    maxLength={200}
+                    value={entry.openGraph.title ?? ''}
+                    onChange={(e) => updateUrlEntry(entry.id, 'openGraph', { ...entry.openGraph, title: e.target.value })}
+                    className="mt-1"
+                  />
+                  <Textarea
+                    aria-label="Preview description"
+                    placeholder="Description"
+                    maxLength={500}
+                    rows={2}
+                    value={entry.openGraph.description ?? ''}
+                    onChange={(e) => updateUrlEntry(entry.id, 'openGraph', { ...entry.openGraph, description: e.target.value })}
+                    className="mt-2"
+                  />
+                  <Input
+                    aria-label="Preview image URL"
+                    placeholder="https://example.com/card.png"
+                    value={entry.openGraph.image ?? ''}
+                    onChange={(e) => updateUrlEntry(entry.id, 'openGraph', { ...entry.openGraph, image: e.target.value })}
+                    className="mt-2"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Shown as the card when the link is shared in Slack, X, Facebook and other chat apps. People are still redirected.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor={`max-clicks-${entry.id}`}>Click Limit (optional)</Label>
+                  <Input
+                    id={`max-clicks-${entry.id}`}
+                    type="number"
+                    min="1"
+                    placeholder="Unlimited"
+                    value={entry.maxClicks}
+                    onChange={(e) => updateUrlEntry(entry.id, 'maxClicks', e.target.value)}
+                    className="mt-1"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    The link expires after this many visits. Use 1 for a one-time link.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor={`password-${entry.id}`}>Password (optional)</Label>
+                  <Input
+                    id={`password-${entry.id}`}
+                    type="password"
+                    autoComplete="new-password"
+                    value={entry.password}
+                    onChange={(e) => updateUrlEntry(entry.id, 'password', e.target.value)}
+                    className="mt-1"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Visitors must enter this password before being redirected.
+                  </p>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor={`redirect-type-${entry.id}`}>Redirect Type</Label>
+                    <Select
+                      value={String(entry.redirectType)}
+                      onValueChange={(value) => updateUrlEntry(entry.id, 'redirectType', Number(value))}
+                    >
+                      <SelectTrigger id={`redirect-type-${entry.id}`} className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REDIRECT_TYPE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`cache-policy-${entry.id}`}>Caching</Label>
+                    <Select
+                      value={entry.cachePolicy}
+                      onValueChange={(value) => updateUrlEntry(entry.id, 'cachePolicy', value)}
+                    >
+                      <SelectTrigger id={`cache-policy-${entry.id}`} className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CACHE_POLICY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {(entry.redirectType === 301 || entry.redirectType === 308 || entry.cachePolicy !== 'no-store') && (
+                  <p className="text-sm text-amber-600 -mt-2">
+                    Browsers may remember this redirect and skip the server, so repeat visits won't be counted.
+                  </p>
+                )}
+
                 {entry.error && (
                   <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-md">
                     <AlertCircle className="h-4 w-4" />
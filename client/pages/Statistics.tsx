@@ -2,31 +2,79 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { BarChart, Clock, Copy, ExternalLink, MousePointer, TrendingUp } from "lucide-react";
+import { BarChart, Clock, Copy, ExternalLink, Eye, Lock, MousePointer, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface ClickData {
-  timestamp: string;
-  source: string;
-  location: string;
-}
+import { DestinationVariant, LinkHealth, RecentClick, RollupCounters } from "@shared/api";
 
 interface UrlStats {
   id: string;
-  originalUrl: string;
+  // Not sent for password-protected or click-limited links
+  originalUrl?: string;
   shortenedUrl: string;
   shortcode: string;
   createdAt: string;
+  activeFrom?: string;
   expiryTime: string;
   totalClicks: number;
-  clicks: ClickData[];
+  // Summed by the server from the daily rollups
+  breakdown: RollupCounters;
+  recentClicks: RecentClick[];
   isExpired: boolean;
+  maxClicks?: number;
+  expiredClicks?: number;
+  // Unfurlers, crawlers and monitors; not part of totalClicks
+  botClicks?: number;
+  botHits?: Record<string, number>;
+  variants?: DestinationVariant[];
+  passwordProtected?: boolean;
+  template?: boolean;
+  disabled?: boolean;
+  health?: LinkHealth;
 }
 
+// "3 clicks", or "3 / 10 clicks" for click-limited links
+const formatClicks = (url: UrlStats) =>
+  url.maxClicks ? `${url.totalClicks} / ${url.maxClicks} clicks` : `${url.totalClicks} clicks`;
+
+// e.g. "HTTP 404 after 120 ms, checked 10/19/2026, 9:00:00 AM"
+const describeHealth = ({ status, error, latencyMs, checkedAt }: LinkHealth) =>
+  `${status ? `HTTP ${status}` : error} after ${latencyMs} ms, checked ${new Date(checkedAt).toLocaleString()}`;
+
+const getStatusLabel = (url: UrlStats) => {
+  if (url.disabled) return "Disabled";
+  if (url.maxClicks && url.totalClicks >= url.maxClicks) return "Limit Reached";
+  if (url.activeFrom && new Date(url.activeFrom) > new Date()) return "Scheduled";
+  return url.isExpired ? "Expired" : "Active";
+};
+
+interface Breakdown {
+  sources: [string, number][];
+  locations: [string, number][];
+  devices: [string, number][];
+  // Every variant, not just the top ones
+  variants: Record<string, number>;
+}
+
+// Top entries first from the server's breakdown, which covers only the days
+// the daily rollups still keep (400), not the link's whole lifetime
+const summarizeBreakdown = (breakdown: RollupCounters): Breakdown => {
+  const top = (counts: Record<string, number>) =>
+    Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, 3);
+  return {
+    sources: top(breakdown.bySource),
+    locations: top(breakdown.byLocation),
+    devices: top(breakdown.byDevice),
+    variants: breakdown.byVariant ?? {},
+  };
+};
+
 export default function Statistics() {
   const [urlStats, setUrlStats] = useState<UrlStats[]>([]);
   const [loading, setLoading] = useState(true);
+  const [includeBots, setIncludeBots] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -62,8 +110,14 @@ export default function Statistics() {
     return new Date(dateString).toLocaleString();
   };
 
+  const getBotClicks = (url: UrlStats) => (includeBots ? url.botClicks ?? 0 : 0);
+
   const getTotalClicks = () => {
-    return urlStats.reduce((total, url) => total + url.totalClicks, 0);
+    return urlStats.reduce((total, url) => total + url.totalClicks + getBotClicks(url), 0);
+  };
+
+  const getExpiredClicks = () => {
+    return urlStats.reduce((total, url) => total + (url.expiredClicks ?? 0), 0);
   };
 
   const getActiveUrls = () => {
@@ -94,9 +148,15 @@ export default function Statistics() {
               Track the performance of your shortened URLs
             </p>
           </div>
-          <Button asChild>
-            <a href="/">← Back to Shortener</a>
-          </Button>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="include-bots" checked={includeBots} onCheckedChange={setIncludeBots} />
+              <Label htmlFor="include-bots">Include bot traffic</Label>
+            </div>
+            <Button asChild>
+              <a href="/">← Back to Shortener</a>
+            </Button>
+          </div>
         </div>
 
         {/* Overview Cards */}
@@ -138,6 +198,14 @@ export default function Statistics() {
                 <div>
                   <p className="text-sm text-gray-600">Total Clicks</p>
                   <p className="text-2xl font-bold">{getTotalClicks()}</p>
+                  {getExpiredClicks() > 0 && (
+                    <p className="text-xs text-gray-500">+{getExpiredClicks()} after expiry</p>
+                  )}
+                  {includeBots && (
+                    <p className="text-xs text-gray-500">
+                      incl. {urlStats.reduce((total, url) => total + getBotClicks(url), 0)} from bots
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -180,7 +248,7 @@ export default function Statistics() {
                       <TableRow key={url.id}>
                         <TableCell className="max-w-xs">
                           <div className="truncate" title={url.originalUrl}>
-                            {url.originalUrl}
+                            {url.originalUrl ?? <span className="text-gray-500">Hidden</span>}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -204,21 +272,54 @@ export default function Statistics() {
                           {formatDate(url.expiryTime)}
                         </TableCell>
                         <TableCell>
-                          <Badge variant={url.isExpired ? "destructive" : "default"}>
-                            {url.isExpired ? "Expired" : "Active"}
-                          </Badge>
+                          <div className="flex items-center gap-1">
+                            <Badge variant={url.isExpired || url.disabled ? "destructive" : "default"}>
+                              {getStatusLabel(url)}
+                            </Badge>
+                            {url.passwordProtected && (
+                              <Badge variant="outline" title="Password protected">
+                                <Lock className="h-3 w-3" />
+                              </Badge>
+                            )}
+                            {url.template && (
+                              <Badge variant="outline" title="Filled from the path, e.g. /r/code/value">
+                                Template
+                              </Badge>
+                            )}
+                            {url.health?.broken && (
+                              <Badge variant="destructive" title={describeHealth(url.health)}>
+                                Broken
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
-                          <span className="font-medium">{url.totalClicks}</span>
+                          <span className="font-medium">{formatClicks(url)}</span>
+                          {(url.expiredClicks ?? 0) > 0 && (
+                            <p className="text-xs text-gray-500">+{url.expiredClicks} after expiry</p>
+                          )}
+                          {getBotClicks(url) > 0 && (
+                            <p className="text-xs text-gray-500">+{getBotClicks(url)} from bots</p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
+                            {url.originalUrl && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => window.open(url.originalUrl, '_blank')}
+                              >
+                                <ExternalLink className="h-3 w-3" />
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => window.open(url.originalUrl, '_blank')}
+                              title="Preview without counting a click"
+                              onClick={() => window.open(`/p/${url.shortcode}`, '_blank')}
                             >
-                              <ExternalLink className="h-3 w-3" />
+                              <Eye className="h-3 w-3" />
                             </Button>
                           </div>
                         </TableCell>
@@ -232,7 +333,7 @@ export default function Statistics() {
         )}
 
         {/* Click Details */}
-        {urlStats.some(url => url.clicks.length > 0) && (
+        {urlStats.some(url => url.totalClicks > 0) && (
           <Card className="mt-8">
             <CardHeader>
               <CardTitle>Recent Click Activity</CardTitle>
@@ -240,31 +341,85 @@ export default function Statistics() {
             <CardContent>
               <div className="space-y-4">
                 {urlStats
-                  .filter(url => url.clicks.length > 0)
-                  .map(url => (
+                  .filter(url => url.totalClicks + getBotClicks(url) > 0)
+                  .map(url => {
+                    const breakdown = summarizeBreakdown(url.breakdown);
+                    return (
                     <div key={url.id} className="border rounded-lg p-4">
                       <div className="flex items-center justify-between mb-3">
                         <code className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">
                           {url.shortcode}
                         </code>
-                        <Badge variant="outline">{url.clicks.length} clicks</Badge>
+                        <Badge variant="outline">{formatClicks(url)}</Badge>
+                      </div>
+                      <div className="grid md:grid-cols-3 gap-4 mb-3 text-sm">
+                        {([
+                          ['Top Sources', breakdown.sources],
+                          ['Top Locations', breakdown.locations],
+                          ['Devices', breakdown.devices],
+                        ] as const).map(([label, entries]) => (
+                          <div key={label}>
+                            <p className="font-medium text-gray-700 mb-1">{label}</p>
+                            {entries.map(([key, count]) => (
+                              <div key={key} className="flex justify-between text-gray-600">
+                                <span className="truncate">{key}</span>
+                                <span>{count}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
                       </div>
+                      {getBotClicks(url) > 0 && (
+                        <div className="mb-3 text-sm">
+                          <p className="font-medium text-gray-700 mb-1">Bots</p>
+                          {Object.entries(url.botHits ?? {})
+                            .sort((a, b) => b[1] - a[1])
+                            .map(([bot, count]) => (
+                              <div key={bot} className="flex justify-between text-gray-600">
+                                <span className="truncate">{bot}</span>
+                                <span>{count}</span>
+                              </div>
+                            ))}
+                        </div>
+                      )}
+                      {url.variants && (
+                        <div className="mb-3 text-sm">
+                          <p className="font-medium text-gray-700 mb-1">A/B Variants</p>
+                          {url.variants.map((variant) => {
+                            const count = breakdown.variants[variant.id] ?? 0;
+                            const variantTotal = Object.values(breakdown.variants).reduce((sum, n) => sum + n, 0);
+                            return (
+                              <div key={variant.id} className="flex justify-between gap-4 text-gray-600">
+                                <span className="truncate">
+                                  <Badge variant="outline" className="mr-2">{variant.id}</Badge>
+                                  {variant.url}
+                                </span>
+                                <span className="whitespace-nowrap">
+                                  {count} ({variantTotal ? Math.round((count / variantTotal) * 100) : 0}%)
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                       <div className="space-y-2">
-                        {url.clicks.slice(0, 5).map((click, index) => (
+                        {url.recentClicks.map((click, index) => (
                           <div key={index} className="flex items-center justify-between text-sm text-gray-600">
                             <span>{formatDate(click.timestamp)}</span>
                             <span>{click.source}</span>
                             <span>{click.location}</span>
+                            <span>{click.os ?? 'Unknown OS'}</span>
                           </div>
                         ))}
-                        {url.clicks.length > 5 && (
+                        {url.totalClicks > url.recentClicks.length && (
                           <p className="text-sm text-gray-500">
-                            +{url.clicks.length - 5} more clicks...
+                            +{url.totalClicks - url.recentClicks.length} more clicks...
                           </p>
                         )}
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Clock } from "lucide-react";
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${days > 0 ? `${days}d ` : ""}${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// Countdown for scheduled links; the server sends visitors here until the
+// link's activeFrom time, and we hand them back to /r/:shortcode afterwards
+export default function Upcoming() {
+  const { shortcode } = useParams();
+  const [searchParams] = useSearchParams();
+  const activeFrom = new Date(searchParams.get("activeFrom") ?? "");
+  const [now, setNow] = useState(Date.now());
+
+  const remaining = activeFrom.getTime() - now;
+  const isReady = isNaN(remaining) || remaining <= 0;
+
+  useEffect(() => {
+    if (isReady) {
+      window.location.replace(`/r/${encodeURIComponent(shortcode ?? "")}`);
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isReady, shortcode]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <Card className="shadow-lg w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-center gap-2">
+            <Clock className="h-5 w-5 text-blue-600" />
+            This link is not active yet
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isReady ? (
+            <p className="text-gray-600">Redirecting...</p>
+          ) : (
+            <>
+              <p className="text-4xl font-mono font-bold text-blue-600">
+                {formatCountdown(remaining)}
+              </p>
+              <p className="text-gray-600">
+                It opens on {activeFrom.toLocaleString()}. This page will
+                continue automatically.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import type { StorageDriver } from "./storage/types";
+import type { SweeperOptions } from "./jobs/expirySweeper";
+import type { HealthCheckOptions } from "./jobs/healthChecker";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StorageConfig {
+  // STORAGE_DRIVER; sqlite requires Node 22.13 or later
+  driver: StorageDriver;
+  // File or directory used by durable drivers
+  path?: string;
+  // Journal driver: events between snapshots, snapshot timer, and how long
+  // log entries may wait for a batched fsync
+  compactEvery?: number;
+  compactIntervalMs?: number;
+  logSyncDelayMs?: number;
+  // Recent log entries kept for /api/logs
+  maxLogs?: number;
+  // Raw clicks kept per link; statistics come from rollups
+  maxClicksPerLink?: number;
+}
+
+export interface LoggingConfig {
+  // Directory for rotated log files; file logging is off when unset
+  dir?: string;
+  maxFileBytes: number;
+  maxAgeDays: number;
+  console: boolean;
+}
+
+export interface AdminConfig {
+  // Bearer token for /api/admin; the admin API is disabled when unset
+  token?: string;
+  // Largest backup archive accepted by /api/admin/import
+  maxImportBytes: string;
+}
+
+export interface PasswordConfig {
+  // Unlock attempts allowed per client and link within the window
+  maxAttempts: number;
+  // Unlock attempts allowed per link from all clients together, so rotating
+  // addresses doesn't buy more guesses
+  maxAttemptsPerLink: number;
+  attemptWindowMs: number;
+}
+
+export interface RedirectConfig {
+  // Default destination for expired links without their own fallback
+  expiredFallbackUrl?: string;
+}
+
+export interface GeoIpConfig {
+  // City-level CSV database (optionally gzipped); lookups are off when unset
+  databasePath?: string;
+}
+
+export interface BrandingConfig {
+  // Shown on the server-rendered error pages
+  name: string;
+  logoUrl?: string;
+  // CSS colors; anything but hex codes or color names falls back to the default
+  primaryColor: string;
+  backgroundColor: string;
+  supportUrl?: string;
+}
+
+export interface ProxyConfig {
+  // Express "trust proxy": false, true, a hop count or a list of addresses
+  // and subnets. Only trusted hops may set X-Forwarded-For, which decides
+  // the client address used for rate limits and geo targeting.
+  trust: boolean | number | string;
+}
+
+export interface ServerConfig {
+  storage: StorageConfig;
+  sweeper: SweeperOptions;
+  healthChecks: HealthCheckOptions;
+  admin: AdminConfig;
+  logging: LoggingConfig;
+  passwords: PasswordConfig;
+  proxy: ProxyConfig;
+  redirects: RedirectConfig;
+  geoip: GeoIpConfig;
+  branding: BrandingConfig;
+}
+
+const toNumber = (value: string | undefined, fallback?: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed)
+    ? parsed
+    : fallback;
+};
+
+const toTrustProxy = (value: string | undefined) => {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return toNumber(value) ?? value;
+};
+
+// Comma-separated, lowercased
+const toList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+const toColor = (value: string | undefined, fallback: string) =>
+  value && /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(value) ? value : fallback;
+
+// Reads server configuration from environment variables
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    storage: {
+      driver: (env.STORAGE_DRIVER ?? "memory") as StorageDriver,
+      path: env.STORAGE_PATH,
+      compactEvery: toNumber(env.JOURNAL_COMPACT_EVERY, 1000),
+      compactIntervalMs: toNumber(env.JOURNAL_COMPACT_INTERVAL_MS, 60_000),
+      logSyncDelayMs: toNumber(env.JOURNAL_LOG_SYNC_MS, 1000),
+      maxLogs: toNumber(env.LOG_BUFFER_SIZE, 1000),
+      maxClicksPerLink: toNumber(env.RAW_CLICK_WINDOW, 100),
+    },
+    sweeper: {
+      intervalMs: toNumber(env.SWEEPER_INTERVAL_MS, 60_000),
+      archiveAfterMs: toNumber(env.ARCHIVE_AFTER_MS, 7 * DAY_MS),
+      purgeAfterMs: toNumber(env.PURGE_AFTER_MS, 30 * DAY_MS),
+    },
+    healthChecks: {
+      intervalMs: toNumber(env.HEALTH_CHECK_INTERVAL_MS, 60 * 60_000),
+      timeoutMs: toNumber(env.HEALTH_CHECK_TIMEOUT_MS, 10_000),
+      allowedHosts: toList(env.HEALTH_CHECK_ALLOW_HOSTS),
+    },
+    admin: {
+      token: env.ADMIN_TOKEN || undefined,
+      maxImportBytes: env.BACKUP_MAX_BYTES ?? "50mb",
+    },
+    logging: {
+      dir: env.LOG_DIR || undefined,
+      maxFileBytes: toNumber(env.LOG_MAX_FILE_BYTES, 10 * 1024 * 1024),
+      maxAgeDays: toNumber(env.LOG_MAX_AGE_DAYS, 14),
+      console: env.LOG_CONSOLE === "true",
+    },
+    passwords: {
+      maxAttempts: toNumber(env.PASSWORD_MAX_ATTEMPTS, 5),
+      maxAttemptsPerLink: toNumber(env.PASSWORD_MAX_ATTEMPTS_PER_LINK, 50),
+      attemptWindowMs: toNumber(env.PASSWORD_ATTEMPT_WINDOW_MS, 15 * 60_000),
+    },
+    proxy: {
+      // Off unless configured: a directly reachable server would otherwise
+      // take any client's word for its address
+      trust: toTrustProxy(env.TRUST_PROXY),
+    },
+    redirects: {
+      expiredFallbackUrl: env.EXPIRED_FALLBACK_URL || undefined,
+    },
+    geoip: {
+      databasePath: env.GEOIP_DB || undefined,
+    },
+    branding: {
+      name: env.BRAND_NAME || "URL Shortener",
+      logoUrl: env.BRAND_LOGO_URL || undefined,
+      primaryColor: toColor(env.BRAND_PRIMARY_COLOR, "#2563eb"),
+      backgroundColor: toColor(env.BRAND_BACKGROUND_COLOR, "#f8fafc"),
+      supportUrl: env.BRAND_SUPPORT_URL || undefined,
+    },
+  };
+}
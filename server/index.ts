@@ -2,18 +2,91 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { shortenUrl, redirectUrl, getStatistics, getLogs } from "./routes/urlShortener";
+import { shortenUrl, redirectUrl, unlockUrl, getStatistics, getLogs } from "./routes/urlShortener";
+import { handleShortLink, handleShortLinkUnlock } from "./routes/redirect";
+import { handleLinkPreview } from "./routes/preview";
+import { exportBackup, importBackup } from "./routes/backup";
+import { updateLink } from "./routes/adminLinks";
+import { loadConfig, ServerConfig } from "./config";
+import { createRepository, UrlRepository } from "./storage";
+import { createExpirySweeper } from "./jobs/expirySweeper";
+import { createHealthChecker } from "./jobs/healthChecker";
+import { requireAdmin } from "./lib/adminAuth";
+import { withAuditLog } from "./lib/auditLog";
+import { createRotatingLogFile } from "./lib/logRotation";
+import { createRateLimiter } from "./lib/rateLimiter";
+import { loadGeoIpDatabase } from "./lib/geoip";
+import { logSystem } from "./lib/logger";
 
-export function createServer() {
+export interface ServerOptions {
+  config?: ServerConfig;
+  // Overrides the repository built from config (used by tests)
+  repository?: UrlRepository;
+}
+
+export function createServer(options: ServerOptions = {}) {
   const app = express();
 
+  const config = options.config ?? loadConfig();
+  const repository = withAuditLog(
+    options.repository ?? createRepository(config.storage),
+    {
+      file: config.logging.dir
+        ? createRotatingLogFile({
+            dir: config.logging.dir,
+            maxFileBytes: config.logging.maxFileBytes,
+            maxAgeDays: config.logging.maxAgeDays,
+          })
+        : undefined,
+      console: config.logging.console,
+    },
+  );
+  app.locals.config = config;
+  app.locals.repository = repository;
+  app.locals.passwordLimiter = createRateLimiter({
+    limit: config.passwords.maxAttempts,
+    windowMs: config.passwords.attemptWindowMs,
+  });
+  app.locals.linkPasswordLimiter = createRateLimiter({
+    limit: config.passwords.maxAttemptsPerLink,
+    windowMs: config.passwords.attemptWindowMs,
+  });
+  if (config.geoip.databasePath) {
+    app.locals.geoip = loadGeoIpDatabase(config.geoip.databasePath);
+    logSystem(repository, "GEOIP_LOADED", {
+      file: config.geoip.databasePath,
+      ranges: app.locals.geoip.size,
+    });
+  }
+
+  // Background jobs
+  app.locals.sweeper = createExpirySweeper(repository, config.sweeper);
+  app.locals.sweeper.start();
+  app.locals.healthChecker = createHealthChecker(repository, config.healthChecks);
+  app.locals.healthChecker.start();
+
   // Middleware
   app.use(cors());
+
+  // Backup import is registered ahead of the global body parsers so it can
+  // accept archives larger than their default limit
+  const admin = requireAdmin(config.admin.token);
+  app.post(
+    "/api/admin/import",
+    admin,
+    express.json({ limit: config.admin.maxImportBytes }),
+    express.text({
+      type: "application/x-ndjson",
+      limit: config.admin.maxImportBytes,
+    }),
+    importBackup,
+  );
+
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  // Add trust proxy for proper IP detection
-  app.set('trust proxy', true);
+  // How many proxies in front of us may report the client address
+  app.set('trust proxy', config.proxy.trust);
 
   // Example API routes
   app.get("/api/ping", (_req, res) => {
@@ -25,9 +98,19 @@ export function createServer() {
 
   // URL Shortener routes
   app.post("/api/shorten", shortenUrl);
-  app.get("/api/redirect/:shortcode", redirectUrl);
+  app.get("/api/redirect/:shortcode{/*path}", redirectUrl);
+  app.post("/api/redirect/:shortcode/unlock", unlockUrl);
   app.get("/api/statistics", getStatistics);
   app.get("/api/logs", getLogs);
 
+  // Admin routes
+  app.get("/api/admin/export", admin, exportBackup);
+  app.patch("/api/admin/links/:shortcode", admin, updateLink);
+
+  // Short links redirect server-side so they work without the SPA
+  app.get("/r/:shortcode{/*path}", handleShortLink);
+  app.post("/r/:shortcode{/*path}", handleShortLinkUnlock);
+  app.get("/p/:shortcode{/*path}", handleLinkPreview);
+
   return app;
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMemoryRepository } from "../storage/memory";
+import { UrlRepository } from "../storage";
+import { makeRecord } from "../test-utils";
+import { createExpirySweeper } from "./expirySweeper";
+
+const MINUTE = 60_000;
+const now = new Date("2026-01-10T12:00:00.000Z");
+const ago = (ms: number) => new Date(now.getTime() - ms).toISOString();
+
+describe("expiry sweeper", () => {
+  let repository: UrlRepository;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    repository = createMemoryRepository();
+  });
+
+  const sweeper = () =>
+    createExpirySweeper(repository, {
+      intervalMs: 0,
+      archiveAfterMs: 10 * MINUTE,
+      purgeAfterMs: 60 * MINUTE,
+    });
+
+  it("should mark links expired once their expiry time passes", () => {
+    repository.createLink(makeRecord("live", { expiryTime: ago(-MINUTE) }));
+    repository.createLink(makeRecord("stale", { expiryTime: ago(MINUTE) }));
+
+    expect(sweeper().sweep(now)).toEqual({
+      expired: ["stale"],
+      archived: [],
+      purged: [],
+    });
+    expect(repository.findByShortcode("stale").isExpired).toBe(true);
+    expect(repository.findByShortcode("live").isExpired).toBe(false);
+  });
+
+  it("should archive links after the retention window", () => {
+    repository.createLink(
+      makeRecord("old", { expiryTime: ago(20 * MINUTE), isExpired: true }),
+    );
+
+    expect(sweeper().sweep(now).archived).toEqual(["old"]);
+    expect(repository.listLinks()).toEqual([]);
+    expect(repository.listArchivedLinks().map((r) => r.shortcode)).toEqual([
+      "old",
+    ]);
+    // Archived links still resolve so visitors get "expired", not "not found"
+    expect(repository.findByShortcode("old").archivedAt).toBe(
+      now.toISOString(),
+    );
+  });
+
+  it("should purge archived links and their clicks", () => {
+    repository.createLink(
+      makeRecord("gone", {
+        expiryTime: ago(120 * MINUTE),
+        isExpired: true,
+        archivedAt: ago(61 * MINUTE),
+      }),
+    );
+
+    expect(sweeper().sweep(now).purged).toEqual(["gone"]);
+    expect(repository.shortcodeExists("gone")).toBe(false);
+  });
+
+  it("should write its actions to the log", () => {
+    repository.createLink(
+      makeRecord("stale", { expiryTime: ago(20 * MINUTE) }),
+    );
+    sweeper().sweep(now);
+
+    const actions = repository.listLogs(10).map((entry) => entry.action);
+    expect(actions).toEqual(["SWEEPER_EXPIRED", "SWEEPER_ARCHIVED"]);
+    expect(repository.listLogs(1)[0]).toMatchObject({
+      shortcode: "stale",
+      userAgent: "expiry-sweeper",
+    });
+  });
+});
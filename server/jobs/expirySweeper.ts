@@ -0,0 +1,112 @@
+import { UrlRepository } from "../storage";
+import { logSystem } from "../lib/logger";
+
+export interface SweeperOptions {
+  // How often to sweep; 0 disables the timer (sweep() can still be called)
+  intervalMs: number;
+  // How long an expired link stays live (still answering 410) before archival
+  archiveAfterMs: number;
+  // How long an archived link is kept before it and its clicks are deleted
+  purgeAfterMs: number;
+}
+
+export interface SweepResult {
+  expired: string[];
+  archived: string[];
+  purged: string[];
+}
+
+export interface ExpirySweeper {
+  sweep(now?: Date): SweepResult;
+  start(): void;
+  stop(): void;
+}
+
+const SOURCE = "expiry-sweeper";
+
+// Marks links expired at their expiryTime, archives them once the retention
+// window has passed, and finally purges them along with their clicks.
+export function createExpirySweeper(
+  repository: UrlRepository,
+  options: SweeperOptions,
+): ExpirySweeper {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const sweep = (now = new Date()): SweepResult => {
+    const result: SweepResult = { expired: [], archived: [], purged: [] };
+    const time = now.getTime();
+
+    for (const record of repository.listLinksExpiringBy(now.toISOString())) {
+      const expiresAt = new Date(record.expiryTime).getTime();
+
+      if (!record.isExpired) {
+        repository.updateLink(record.shortcode, { isExpired: true });
+        result.expired.push(record.shortcode);
+        logSystem(
+          repository,
+          "SWEEPER_EXPIRED",
+          { shortcode: record.shortcode, expiryTime: record.expiryTime },
+          SOURCE,
+        );
+      }
+
+      if (time - expiresAt >= options.archiveAfterMs) {
+        repository.updateLink(record.shortcode, {
+          archivedAt: now.toISOString(),
+        });
+        result.archived.push(record.shortcode);
+        logSystem(
+          repository,
+          "SWEEPER_ARCHIVED",
+          { shortcode: record.shortcode, expiryTime: record.expiryTime },
+          SOURCE,
+        );
+      }
+    }
+
+    const purgeBefore = new Date(time - options.purgeAfterMs).toISOString();
+    for (const record of repository.listLinksArchivedBy(purgeBefore)) {
+      repository.deleteLink(record.shortcode);
+      result.purged.push(record.shortcode);
+      logSystem(
+        repository,
+        "SWEEPER_PURGED",
+        {
+          shortcode: record.shortcode,
+          archivedAt: record.archivedAt,
+          totalClicks: record.totalClicks,
+        },
+        SOURCE,
+      );
+    }
+
+    return result;
+  };
+
+  return {
+    sweep,
+
+    start() {
+      if (timer || options.intervalMs <= 0) return;
+      timer = setInterval(() => {
+        try {
+          sweep();
+        } catch (error) {
+          logSystem(
+            repository,
+            "SWEEPER_ERROR",
+            { error: error.message },
+            SOURCE,
+          );
+        }
+      }, options.intervalMs);
+      // Never keep the process (or a test run) alive just for the sweeper
+      timer.unref();
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -0,0 +1,236 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from "vitest";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { createMemoryRepository } from "../storage/memory";
+import { UrlRepository } from "../storage";
+import { makeRecord } from "../test-utils";
+import { createHealthChecker } from "./healthChecker";
+
+describe("health checker", () => {
+  let destination: Server;
+  let baseUrl: string;
+  let repository: UrlRepository;
+  // Status the /flaky page answers with
+  let flakyStatus = 200;
+  const methods: string[] = [];
+
+  beforeAll(async () => {
+    // Stand-in for the sites short links point at
+    destination = createServer((req, res) => {
+      methods.push(`${req.method} ${req.url}`);
+      switch (req.url) {
+        case "/ok":
+          return res.writeHead(200).end("ok");
+        case "/gone":
+          return res.writeHead(404).end("gone");
+        case "/moved":
+          return res.writeHead(301, { Location: "/ok" }).end();
+        case "/to-metadata":
+          return res
+            .writeHead(302, {
+              Location: "http://169.254.169.254/latest/meta-data/",
+            })
+            .end();
+        case "/loop":
+          return res.writeHead(302, { Location: "/loop" }).end();
+        case "/no-head":
+          return res.writeHead(req.method === "HEAD" ? 405 : 200).end();
+        case "/flaky":
+          return res.writeHead(flakyStatus).end();
+        case "/slow":
+          return setTimeout(() => res.writeHead(200).end(), 1000);
+      }
+    });
+    destination.listen(0, "127.0.0.1");
+    await new Promise((resolve) => destination.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(destination.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    destination.closeAllConnections();
+    await new Promise((resolve) => destination.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    repository = createMemoryRepository();
+    methods.length = 0;
+  });
+
+  const checker = (allowedHosts = ["127.0.0.1"]) =>
+    createHealthChecker(repository, {
+      intervalMs: 0,
+      timeoutMs: 200,
+      allowedHosts,
+    });
+
+  it("should record status, latency and the final URL", async () => {
+    repository.createLink(makeRecord("ok", { originalUrl: `${baseUrl}/ok` }));
+    repository.createLink(
+      makeRecord("moved", { originalUrl: `${baseUrl}/moved` }),
+    );
+
+    await checker().checkAll();
+
+    expect(repository.findByShortcode("ok").health).toMatchObject({
+      status: 200,
+      broken: false,
+      latencyMs: expect.any(Number),
+    });
+    expect(repository.findByShortcode("ok").health.finalUrl).toBeUndefined();
+    expect(repository.findByShortcode("moved").health).toMatchObject({
+      status: 200,
+      finalUrl: `${baseUrl}/ok`,
+      broken: false,
+    });
+    expect(methods).toContain("HEAD /ok");
+    expect(methods).not.toContain("GET /ok");
+  });
+
+  it("should fall back to GET when HEAD is refused", async () => {
+    repository.createLink(
+      makeRecord("nohead", { originalUrl: `${baseUrl}/no-head` }),
+    );
+
+    await checker().checkAll();
+
+    expect(methods).toEqual(["HEAD /no-head", "GET /no-head"]);
+    expect(repository.findByShortcode("nohead").health).toMatchObject({
+      status: 200,
+      broken: false,
+    });
+  });
+
+  it("should mark error responses and timeouts as broken", async () => {
+    repository.createLink(
+      makeRecord("gone", { originalUrl: `${baseUrl}/gone` }),
+    );
+    repository.createLink(
+      makeRecord("slow", { originalUrl: `${baseUrl}/slow` }),
+    );
+
+    expect(await checker().checkAll()).toEqual(["gone", "slow"]);
+    expect(repository.findByShortcode("gone").health).toMatchObject({
+      status: 404,
+      broken: true,
+    });
+    expect(repository.findByShortcode("slow").health).toMatchObject({
+      error: "No response within 200ms",
+      broken: true,
+    });
+  });
+
+  it("should log only when a link's status changes", async () => {
+    flakyStatus = 200;
+    repository.createLink(
+      makeRecord("flaky", { originalUrl: `${baseUrl}/flaky` }),
+    );
+    const health = checker();
+    const changes = () =>
+      repository
+        .listLogs(100)
+        .filter((entry) => entry.action === "HEALTH_STATUS_CHANGED");
+
+    expect(await health.checkAll()).toEqual([]);
+    flakyStatus = 500;
+    expect(await health.checkAll()).toEqual(["flaky"]);
+    expect(await health.checkAll()).toEqual([]);
+    flakyStatus = 200;
+    expect(await health.checkAll()).toEqual(["flaky"]);
+
+    expect(changes().map((entry) => entry.details)).toEqual([
+      expect.objectContaining({
+        previousStatus: 200,
+        status: 500,
+        broken: true,
+      }),
+      expect.objectContaining({
+        previousStatus: 500,
+        status: 200,
+        broken: false,
+      }),
+    ]);
+  });
+
+  it("should skip links that are expired, disabled, templates or not web URLs", async () => {
+    repository.createLink(
+      makeRecord("expired", { originalUrl: `${baseUrl}/ok`, isExpired: true }),
+    );
+    repository.createLink(
+      makeRecord("off", { originalUrl: `${baseUrl}/ok`, disabled: true }),
+    );
+    repository.createLink(
+      makeRecord("tpl", { originalUrl: `${baseUrl}/{1}`, template: true }),
+    );
+    repository.createLink(
+      makeRecord("app", { originalUrl: "myapp://open/item/1" }),
+    );
+
+    await checker().checkAll();
+
+    expect(methods).toEqual([]);
+    expect(
+      repository.listLinks().filter((record) => record.health),
+    ).toHaveLength(0);
+  });
+
+  it("should skip private, loopback and link-local destinations", async () => {
+    repository.createLink(
+      makeRecord("local", { originalUrl: `${baseUrl}/ok` }),
+    );
+    repository.createLink(
+      makeRecord("metadata", {
+        originalUrl: "http://169.254.169.254/latest/meta-data/",
+      }),
+    );
+    repository.createLink(makeRecord("v6", { originalUrl: "http://[::1]:9/" }));
+
+    // Not requested, and not reported as broken either
+    expect(await checker([]).checkAll()).toEqual([]);
+
+    expect(methods).toEqual([]);
+    expect(repository.findByShortcode("local").health).toMatchObject({
+      skipped: "127.0.0.1 resolves to private address 127.0.0.1",
+      broken: false,
+    });
+    expect(repository.findByShortcode("metadata").health.skipped).toMatch(
+      /private address 169\.254\.169\.254/,
+    );
+    expect(repository.findByShortcode("v6").health.skipped).toMatch(
+      /private address ::1/,
+    );
+    expect(
+      repository
+        .listLogs(100)
+        .filter((entry) => entry.action === "HEALTH_STATUS_CHANGED"),
+    ).toEqual([]);
+  });
+
+  it("should check every redirect hop and give up on loops", async () => {
+    repository.createLink(
+      makeRecord("hop", { originalUrl: `${baseUrl}/to-metadata` }),
+    );
+    repository.createLink(
+      makeRecord("loop", { originalUrl: `${baseUrl}/loop` }),
+    );
+
+    await checker().checkAll();
+
+    expect(repository.findByShortcode("hop").health).toMatchObject({
+      skipped: "169.254.169.254 resolves to private address 169.254.169.254",
+      broken: false,
+    });
+    expect(repository.findByShortcode("loop").health).toMatchObject({
+      error: "More than 5 redirects",
+      broken: true,
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { LinkHealth } from "@shared/api";
+import { LinkSummary, UrlRepository } from "../storage";
+import { logSystem } from "../lib/logger";
+import {
+  assertPublicDestination,
+  PrivateDestinationError,
+} from "../lib/privateNetworks";
+import { hidesDestination } from "../lib/resolveLink";
+
+export interface HealthCheckOptions {
+  // How often to check; 0 disables the timer (checkAll() can still be called)
+  intervalMs: number;
+  // Per request; a destination that takes longer counts as broken
+  timeoutMs: number;
+  // Hosts checked even though they resolve to a private or loopback address.
+  // Empty in production; tests list their local stand-in server.
+  allowedHosts?: string[];
+}
+
+export interface HealthChecker {
+  // Resolves to the shortcodes whose health changed
+  checkAll(now?: Date): Promise<string[]>;
+  check(record: LinkSummary, now?: Date): Promise<LinkHealth>;
+  start(): void;
+  stop(): void;
+}
+
+const SOURCE = "health-checker";
+
+const isHttpUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const MAX_REDIRECTS = 5;
+
+// Of the active links, those pointing at a fixed web address. Template links
+// only have a destination once a visitor fills it in.
+const isCheckable = (record: LinkSummary) =>
+  !record.template && isHttpUrl(record.originalUrl);
+
+const hasChanged = (previous: LinkHealth | undefined, next: LinkHealth) =>
+  previous
+    ? previous.status !== next.status || previous.broken !== next.broken
+    : next.broken;
+
+// Periodically requests each active link's originalUrl (HEAD, then GET for
+// servers that refuse HEAD) and stores the outcome on the link.
+export function createHealthChecker(
+  repository: UrlRepository,
+  options: HealthCheckOptions,
+): HealthChecker {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  // Follows redirects by hand so every hop's host is checked before it is
+  // requested. Resolves to the final status and URL.
+  const request = async (url: string, method: "HEAD" | "GET") => {
+    const signal = AbortSignal.timeout(options.timeoutMs);
+    let current = url;
+    for (let hops = 0; ; hops++) {
+      await assertPublicDestination(new URL(current), options.allowedHosts);
+      const response = await fetch(current, {
+        method,
+        redirect: "manual",
+        signal,
+      });
+      // Only the status matters; don't download the page
+      await response.body?.cancel();
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { status: response.status, url: current };
+      }
+      if (hops === MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      current = new URL(location, current).href;
+      if (!isHttpUrl(current)) {
+        throw new Error(`Redirects to a non-web URL: ${current}`);
+      }
+    }
+  };
+
+  const check = async (
+    record: LinkSummary,
+    now = new Date(),
+  ): Promise<LinkHealth> => {
+    const startedAt = performance.now();
+    const latency = () => Math.round(performance.now() - startedAt);
+    // Internal destinations may be perfectly fine; they just aren't ours
+    // to request
+    const skipped = (error: Error): LinkHealth => ({
+      checkedAt: now.toISOString(),
+      latencyMs: latency(),
+      skipped: error.message,
+      broken: false,
+    });
+    let response: { status: number; url: string } | undefined;
+    try {
+      response = await request(record.originalUrl, "HEAD");
+    } catch (error) {
+      // Some servers drop HEAD requests outright; GET decides
+      if (error instanceof PrivateDestinationError) return skipped(error);
+    }
+    try {
+      if (!response || response.status >= 400) {
+        response = await request(record.originalUrl, "GET");
+      }
+    } catch (error) {
+      if (error instanceof PrivateDestinationError) return skipped(error);
+      return {
+        checkedAt: now.toISOString(),
+        latencyMs: latency(),
+        error:
+          error.name === "TimeoutError"
+            ? `No response within ${options.timeoutMs}ms`
+            : (error.cause?.code ?? error.message),
+        broken: true,
+      };
+    }
+    return {
+      checkedAt: now.toISOString(),
+      status: response.status,
+      latencyMs: latency(),
+      finalUrl: response.url !== record.originalUrl ? response.url : undefined,
+      broken: response.status >= 400,
+    };
+  };
+
+  const checkAll = async (now = new Date()) => {
+    const changed: string[] = [];
+    for (const record of repository.listActiveLinks(now.toISOString())) {
+      if (!isCheckable(record)) continue;
+
+      const health = await check(record, now);
+      // The link may have been deleted while the request was in flight
+      if (!repository.updateLink(record.shortcode, { health })) continue;
+
+      if (hasChanged(record.health, health)) {
+        changed.push(record.shortcode);
+        logSystem(
+          repository,
+          "HEALTH_STATUS_CHANGED",
+          {
+            shortcode: record.shortcode,
+            originalUrl: hidesDestination(record)
+              ? undefined
+              : record.originalUrl,
+            previousStatus: record.health?.status,
+            status: health.status,
+            error: health.error,
+            broken: health.broken,
+          },
+          SOURCE,
+        );
+      }
+    }
+    return changed;
+  };
+
+  return {
+    checkAll,
+    check,
+
+    start() {
+      if (timer || options.intervalMs <= 0) return;
+      timer = setInterval(async () => {
+        // A slow round must not overlap the next one
+        if (running) return;
+        running = true;
+        try {
+          await checkAll();
+        } catch (error) {
+          logSystem(
+            repository,
+            "HEALTH_CHECK_ERROR",
+            { error: error.message },
+            SOURCE,
+          );
+        } finally {
+          running = false;
+        }
+      }, options.intervalMs);
+      // Never keep the process (or a test run) alive just for health checks
+      timer.unref();
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+import { ErrorResponse } from "@shared/api";
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+// Guards /api/admin routes with a static bearer token (ADMIN_TOKEN).
+// Without a configured token the admin API stays disabled.
+export const requireAdmin =
+  (token: string | undefined): RequestHandler =>
+  (req, res, next) => {
+    if (!token) {
+      const error: ErrorResponse = {
+        error: "Admin API is disabled",
+        code: "ADMIN_DISABLED",
+      };
+      return res.status(403).json(error);
+    }
+
+    const header = req.get("Authorization") ?? "";
+    const provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+    if (!safeEqual(provided, token)) {
+      const error: ErrorResponse = {
+        error: "Invalid admin token",
+        code: "UNAUTHORIZED",
+      };
+      return res.status(401).json(error);
+    }
+
+    next();
+  };
@@ -0,0 +1,31 @@
+import { UrlRepository } from "../storage";
+import { RotatingLogFile } from "./logRotation";
+
+export interface AuditLogOptions {
+  // Rotating on-disk copy of every log entry
+  file?: RotatingLogFile;
+  // Echo entries to stdout (noisy; meant for local debugging)
+  console?: boolean;
+}
+
+// Wraps a repository so every appended log entry is also written to the
+// rotating log files and, optionally, the console.
+export function withAuditLog(
+  repository: UrlRepository,
+  { file, console: echo = false }: AuditLogOptions,
+): UrlRepository {
+  return {
+    ...repository,
+
+    appendLog(entry) {
+      repository.appendLog(entry);
+      file?.write(entry);
+      if (echo) console.log(`[URL_SHORTENER] ${entry.action}:`, entry);
+    },
+
+    close() {
+      repository.close();
+      void file?.close();
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryRepository } from "../storage/memory";
+import { makeRecord } from "../test-utils";
+import { BACKUP_FORMAT, BACKUP_VERSION, importArchive } from "./backup";
+
+describe("importArchive", () => {
+  it("should undo earlier writes and restore overwritten links when a write fails", () => {
+    const repository = createMemoryRepository();
+    repository.createLink(
+      makeRecord("alpha", { originalUrl: "https://kept.example" }),
+    );
+    const createLink = repository.createLink;
+    repository.createLink = (record) => {
+      if (record.shortcode === "gamma") throw new Error("disk full");
+      return createLink(record);
+    };
+
+    expect(() =>
+      importArchive(
+        repository,
+        {
+          format: BACKUP_FORMAT,
+          version: BACKUP_VERSION,
+          exportedAt: new Date().toISOString(),
+          links: [makeRecord("alpha"), makeRecord("beta"), makeRecord("gamma")],
+          logs: [],
+        },
+        "overwrite",
+        false,
+      ),
+    ).toThrow("disk full");
+
+    expect(repository.findByShortcode("alpha").originalUrl).toBe(
+      "https://kept.example",
+    );
+    expect(repository.shortcodeExists("beta")).toBe(false);
+  });
+});
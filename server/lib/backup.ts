@@ -0,0 +1,460 @@
+import { randomUUID } from "crypto";
+import {
+  ClickData,
+  ClickRollups,
+  LinkHealth,
+  LogEntry,
+  RollupCounters,
+  UrlRecord,
+} from "@shared/api";
+import { UrlRepository } from "../storage";
+import { validateOpenGraph } from "./openGraph";
+import { isValidInterstitialSeconds } from "./pages";
+import { isValidPasswordHash } from "./password";
+import { validateUtm } from "./queryParams";
+import {
+  CACHE_POLICIES,
+  REDIRECT_TYPES,
+  validateRedirectPolicy,
+} from "./redirectPolicy";
+import { DAILY_RETENTION, HOURLY_RETENTION } from "./rollups";
+import {
+  isValidDestination,
+  validateCountryDestinations,
+  validatePlatformDestinations,
+  validateVariants,
+} from "./targeting";
+import { validateTemplate } from "./templates";
+
+export const BACKUP_FORMAT = "url-shortener-backup";
+export const BACKUP_VERSION = 1;
+
+export type ConflictStrategy = "skip" | "overwrite" | "rename";
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = [
+  "skip",
+  "overwrite",
+  "rename",
+];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Includes archived links; each record carries its clicks
+  links: UrlRecord[];
+  logs: LogEntry[];
+}
+
+// NDJSON archives put one entity per line so large datasets can be
+// processed incrementally: a header, then links, clicks and logs.
+type NdjsonLine =
+  | { type: "header"; format: string; version: number; exportedAt: string }
+  | { type: "link"; record: Omit<UrlRecord, "clicks"> }
+  | { type: "click"; shortcode: string; click: ClickData }
+  | { type: "log"; entry: LogEntry };
+
+export interface ImportReport {
+  dryRun: boolean;
+  strategy: ConflictStrategy;
+  created: string[];
+  overwritten: string[];
+  skipped: string[];
+  renamed: { from: string; to: string }[];
+  clicks: number;
+  logs: number;
+}
+
+export class InvalidArchiveError extends Error {}
+
+export const exportArchive = (repository: UrlRepository): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  links: [...repository.listLinks(), ...repository.listArchivedLinks()],
+  logs: repository.listLogs(repository.countLogs()),
+});
+
+export const toNdjson = (archive: BackupArchive): string => {
+  const lines: NdjsonLine[] = [
+    {
+      type: "header",
+      format: archive.format,
+      version: archive.version,
+      exportedAt: archive.exportedAt,
+    },
+  ];
+  for (const { clicks, ...record } of archive.links) {
+    lines.push({ type: "link", record });
+    clicks.forEach((click) =>
+      lines.push({ type: "click", shortcode: record.shortcode, click }),
+    );
+  }
+  archive.logs.forEach((entry) => lines.push({ type: "log", entry }));
+  return lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+};
+
+const fromNdjson = (text: string): BackupArchive => {
+  const archive = { links: [], logs: [] } as BackupArchive;
+  const byShortcode = new Map<string, UrlRecord>();
+
+  text.split("\n").forEach((raw, index) => {
+    if (raw.trim() === "") return;
+    let line: NdjsonLine;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      throw new InvalidArchiveError(`Invalid JSON on line ${index + 1}`);
+    }
+    switch (line.type) {
+      case "header":
+        archive.format = line.format as typeof BACKUP_FORMAT;
+        archive.version = line.version;
+        archive.exportedAt = line.exportedAt;
+        break;
+      case "link": {
+        const record = { ...line.record, clicks: [] } as UrlRecord;
+        byShortcode.set(record.shortcode, record);
+        archive.links.push(record);
+        break;
+      }
+      case "click": {
+        const record = byShortcode.get(line.shortcode);
+        if (!record) {
+          throw new InvalidArchiveError(
+            `Click on line ${index + 1} references unknown link ${line.shortcode}`,
+          );
+        }
+        record.clicks.push(line.click);
+        break;
+      }
+      case "log":
+        archive.logs.push(line.entry);
+        break;
+      default:
+        throw new InvalidArchiveError(
+          `Unknown entry type on line ${index + 1}`,
+        );
+    }
+  });
+
+  return archive;
+};
+
+const isDate = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isCount = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+// Everything createLink relies on, so a record either imports whole or the
+// archive is rejected before anything is written
+const linkProblem = (record: UrlRecord): string | undefined => {
+  if (!record || typeof record !== "object") return "not an object";
+  if (
+    typeof record.shortcode !== "string" ||
+    !/^[a-zA-Z0-9]+$/.test(record.shortcode)
+  ) {
+    return "invalid shortcode";
+  }
+  for (const field of ["id", "originalUrl", "shortenedUrl"] as const) {
+    if (typeof record[field] !== "string" || record[field] === "") {
+      return `missing ${field}`;
+    }
+  }
+  for (const field of ["createdAt", "expiryTime"] as const) {
+    if (!isDate(record[field])) return `invalid ${field}`;
+  }
+  for (const field of ["activeFrom", "archivedAt"] as const) {
+    if (record[field] !== undefined && !isDate(record[field])) {
+      return `invalid ${field}`;
+    }
+  }
+  for (const field of ["validityMinutes", "totalClicks"] as const) {
+    if (!isCount(record[field])) return `invalid ${field}`;
+  }
+  for (const field of ["maxClicks", "expiredClicks", "botClicks"] as const) {
+    if (record[field] !== undefined && !isCount(record[field])) {
+      return `invalid ${field}`;
+    }
+  }
+  if (typeof record.isExpired !== "boolean") return "invalid isExpired";
+  if (record.clicks !== undefined && !Array.isArray(record.clicks)) {
+    return "clicks must be an array";
+  }
+  const badClick = (record.clicks ?? []).findIndex(
+    (click) =>
+      !click ||
+      typeof click !== "object" ||
+      !isDate(click.timestamp) ||
+      ["source", "location", "userAgent", "ip"].some(
+        (field) => typeof click[field as keyof ClickData] !== "string",
+      ),
+  );
+  if (badClick !== -1) return `invalid click at index ${badClick}`;
+  return settingsProblem(record);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isCountMap = (value: unknown) =>
+  isObject(value) && Object.values(value).every(isCount);
+
+const isCounters = (value: unknown) => {
+  if (!isObject(value)) return false;
+  const counters = value as unknown as RollupCounters;
+  return (
+    isCount(counters.total) &&
+    isCountMap(counters.bySource) &&
+    isCountMap(counters.byLocation) &&
+    isCountMap(counters.byDevice) &&
+    (counters.byVariant === undefined || isCountMap(counters.byVariant))
+  );
+};
+
+const areBuckets = (value: unknown, key: RegExp, keep: number) =>
+  isObject(value) &&
+  Object.keys(value).length <= keep &&
+  Object.entries(value).every(
+    ([bucket, counters]) => key.test(bucket) && isCounters(counters),
+  );
+
+const isRollups = (rollups: ClickRollups) =>
+  isObject(rollups) &&
+  areBuckets(rollups.hourly, /^\d{4}-\d{2}-\d{2}T\d{2}$/, HOURLY_RETENTION) &&
+  areBuckets(rollups.daily, /^\d{4}-\d{2}-\d{2}$/, DAILY_RETENTION);
+
+const isHealth = (health: LinkHealth) =>
+  isObject(health) &&
+  isDate(health.checkedAt) &&
+  isCount(health.latencyMs) &&
+  typeof health.broken === "boolean" &&
+  (health.status === undefined || isCount(health.status)) &&
+  (health.finalUrl === undefined || isValidDestination(health.finalUrl)) &&
+  (health.error === undefined || typeof health.error === "string") &&
+  (health.skipped === undefined || typeof health.skipped === "string");
+
+// The same rules shortenUrl applies, so an archive cannot store settings the
+// API would refuse (pages and redirects trust what is stored)
+const settingsProblem = (record: UrlRecord): string | undefined => {
+  const destinationError = record.template
+    ? record.forwardPath
+      ? "Template links cannot also forward paths"
+      : validateTemplate(record.originalUrl)
+    : !isValidDestination(record.originalUrl)
+      ? "invalid originalUrl"
+      : undefined;
+  if (destinationError) return destinationError;
+  if (
+    record.expiredRedirectUrl !== undefined &&
+    !isValidDestination(record.expiredRedirectUrl)
+  ) {
+    return "invalid expiredRedirectUrl";
+  }
+
+  const error =
+    validatePlatformDestinations(record.platformDestinations) ??
+    validateCountryDestinations(record.countryDestinations) ??
+    validateVariants(record.variants) ??
+    validateUtm(record.utm) ??
+    validateOpenGraph(record.openGraph);
+  if (error) return error;
+
+  if (
+    record.redirectType !== undefined &&
+    !REDIRECT_TYPES.includes(record.redirectType)
+  ) {
+    return "invalid redirectType";
+  }
+  if (
+    record.cachePolicy !== undefined &&
+    !CACHE_POLICIES.includes(record.cachePolicy)
+  ) {
+    return "invalid cachePolicy";
+  }
+  if (
+    record.cacheMaxAgeSeconds !== undefined &&
+    !isCount(record.cacheMaxAgeSeconds)
+  ) {
+    return "invalid cacheMaxAgeSeconds";
+  }
+  if (record.maxClicks !== undefined && record.maxClicks <= 0) {
+    return "invalid maxClicks";
+  }
+  const policyError = validateRedirectPolicy(record);
+  if (policyError) return policyError;
+
+  if (
+    record.interstitialSeconds !== undefined &&
+    !isValidInterstitialSeconds(record.interstitialSeconds)
+  ) {
+    return "invalid interstitialSeconds";
+  }
+  if (
+    record.passwordHash !== undefined &&
+    !isValidPasswordHash(record.passwordHash)
+  ) {
+    return "invalid passwordHash";
+  }
+  for (const field of [
+    "stickyVariants",
+    "forwardQuery",
+    "forwardPath",
+    "template",
+    "interstitial",
+    "disabled",
+  ] as const) {
+    if (record[field] !== undefined && typeof record[field] !== "boolean") {
+      return `invalid ${field}`;
+    }
+  }
+  if (record.botHits !== undefined && !isCountMap(record.botHits)) {
+    return "invalid botHits";
+  }
+  if (record.rollups !== undefined && !isRollups(record.rollups)) {
+    return "invalid rollups";
+  }
+  if (record.health !== undefined && !isHealth(record.health)) {
+    return "invalid health";
+  }
+  return undefined;
+};
+
+const validateArchive = (archive: BackupArchive): BackupArchive => {
+  if (archive?.format !== BACKUP_FORMAT) {
+    throw new InvalidArchiveError("Not a URL shortener backup");
+  }
+  if (archive.version !== BACKUP_VERSION) {
+    throw new InvalidArchiveError(
+      `Unsupported backup version ${archive.version} (expected ${BACKUP_VERSION})`,
+    );
+  }
+  if (!Array.isArray(archive.links) || !Array.isArray(archive.logs)) {
+    throw new InvalidArchiveError("Backup must contain links and logs arrays");
+  }
+  const seen = new Set<string>();
+  archive.links.forEach((record, index) => {
+    const problem = linkProblem(record);
+    if (problem) {
+      throw new InvalidArchiveError(
+        `Invalid link at index ${index}: ${problem}`,
+      );
+    }
+    if (seen.has(record.shortcode)) {
+      throw new InvalidArchiveError(
+        `Duplicate shortcode ${record.shortcode} at index ${index}`,
+      );
+    }
+    seen.add(record.shortcode);
+    record.clicks = record.clicks ?? [];
+  });
+  archive.logs.forEach((entry, index) => {
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      !isDate(entry.timestamp) ||
+      typeof entry.action !== "string"
+    ) {
+      throw new InvalidArchiveError(`Invalid log entry at index ${index}`);
+    }
+  });
+  return archive;
+};
+
+// Accepts a parsed JSON archive or raw NDJSON text
+export const parseArchive = (body: unknown): BackupArchive => {
+  const archive =
+    typeof body === "string" ? fromNdjson(body) : (body as BackupArchive);
+  return validateArchive(archive);
+};
+
+const nextFreeShortcode = (
+  shortcode: string,
+  taken: (candidate: string) => boolean,
+) => {
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${shortcode}${suffix}`;
+    if (!taken(candidate)) return candidate;
+  }
+};
+
+// Plans (and unless dryRun, applies) an import. Conflicts are resolved per
+// shortcode with the chosen strategy. Repositories have no transactions, so
+// every write records how to undo it; if one fails, the earlier ones are
+// reverted (overwritten links come back) and the error is rethrown.
+export const importArchive = (
+  repository: UrlRepository,
+  archive: BackupArchive,
+  strategy: ConflictStrategy,
+  dryRun: boolean,
+): ImportReport => {
+  const report: ImportReport = {
+    dryRun,
+    strategy,
+    created: [],
+    overwritten: [],
+    skipped: [],
+    renamed: [],
+    clicks: 0,
+    logs: archive.logs.length,
+  };
+  // Shortcodes claimed by this import, so a dry run sees its own renames
+  const claimed = new Set<string>();
+  const taken = (shortcode: string) =>
+    claimed.has(shortcode) || repository.shortcodeExists(shortcode);
+  const undo: (() => void)[] = [];
+
+  try {
+    for (const incoming of archive.links) {
+      let record = incoming;
+
+      if (taken(record.shortcode)) {
+        if (strategy === "skip") {
+          report.skipped.push(record.shortcode);
+          continue;
+        }
+        if (strategy === "overwrite") {
+          report.overwritten.push(record.shortcode);
+          if (!dryRun) {
+            const previous = repository.findByShortcode(record.shortcode);
+            repository.deleteLink(record.shortcode);
+            undo.push(() => repository.createLink(previous));
+          }
+        } else {
+          const shortcode = nextFreeShortcode(record.shortcode, taken);
+          report.renamed.push({ from: record.shortcode, to: shortcode });
+          record = {
+            ...record,
+            id: randomUUID(),
+            shortcode,
+            shortenedUrl: record.shortenedUrl.replace(
+              new RegExp(`/r/${record.shortcode}$`),
+              `/r/${shortcode}`,
+            ),
+          };
+        }
+      } else {
+        report.created.push(record.shortcode);
+      }
+
+      claimed.add(record.shortcode);
+      report.clicks += record.clicks.length;
+
+      if (!dryRun) {
+        // A link id can collide across environments even when shortcodes don't
+        const id = repository.findById(record.id) ? randomUUID() : record.id;
+        repository.createLink({ ...record, id });
+        const { shortcode } = record;
+        undo.push(() => repository.deleteLink(shortcode));
+      }
+    }
+
+    // Logs are append-only, so they go in once every link has been written
+    if (!dryRun) archive.logs.forEach((entry) => repository.appendLog(entry));
+  } catch (error) {
+    undo.reverse().forEach((step) => step());
+    throw error;
+  }
+
+  return report;
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { getBotName } from "./bots";
+
+describe("bot detection", () => {
+  it("should name known unfurlers, crawlers and monitors", () => {
+    expect(
+      getBotName("Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)"),
+    ).toBe("Slack");
+    expect(getBotName("Twitterbot/1.0")).toBe("Twitter");
+    expect(
+      getBotName(
+        "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+      ),
+    ).toBe("Google");
+    expect(getBotName("curl/8.4.0")).toBe("curl");
+    expect(getBotName("SomeCrawler/2.0")).toBe("Other bot");
+  });
+
+  it("should treat a missing user agent as a bot", () => {
+    expect(getBotName(undefined)).toBe("No user agent");
+    expect(getBotName("")).toBe("No user agent");
+  });
+
+  it("should leave browsers alone", () => {
+    expect(
+      getBotName(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36",
+      ),
+    ).toBeUndefined();
+    expect(getBotName("node")).toBeUndefined();
+  });
+});
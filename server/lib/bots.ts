@@ -0,0 +1,79 @@
+import { Request } from "express";
+
+// Link unfurlers, search engines, uptime monitors and scripted clients,
+// checked in order. Names end up in the statistics, so keep them readable.
+export const KNOWN_BOTS: [name: string, pattern: RegExp][] = [
+  ["Slack", /Slackbot|Slack-ImgProxy/i],
+  ["Twitter", /Twitterbot/i],
+  ["Facebook", /facebookexternalhit|Facebot|meta-externalagent/i],
+  ["LinkedIn", /LinkedInBot/i],
+  ["Discord", /Discordbot/i],
+  ["Telegram", /TelegramBot/i],
+  ["WhatsApp", /WhatsApp/i],
+  ["Skype", /SkypeUriPreview/i],
+  ["Microsoft Teams", /MicrosoftPreview|Teams\/.*Preview/i],
+  ["Pinterest", /Pinterestbot|Pinterest\//i],
+  ["Reddit", /redditbot/i],
+  ["Apple", /Applebot/i],
+  ["Google", /Googlebot|Google-InspectionTool|GoogleOther|AdsBot-Google/i],
+  ["Bing", /bingbot|BingPreview/i],
+  ["DuckDuckGo", /DuckDuckBot/i],
+  ["Yandex", /YandexBot/i],
+  ["Baidu", /Baiduspider/i],
+  ["UptimeRobot", /UptimeRobot/i],
+  ["Pingdom", /Pingdom/i],
+  ["StatusCake", /StatusCake/i],
+  ["Site24x7", /Site24x7/i],
+  ["Better Stack", /Better ?Uptime|Better ?Stack/i],
+  ["Headless browser", /HeadlessChrome|PhantomJS/i],
+  ["curl", /^curl\//i],
+  ["Wget", /^Wget\//i],
+  ["Python", /python-requests|python-urllib|aiohttp/i],
+  ["Go", /Go-http-client/i],
+  ["Other bot", /bot\b|crawler|spider|scraper/i],
+];
+
+// Bots that fetch a link to draw a card for it in a chat or feed
+const UNFURLERS = new Set([
+  "Slack",
+  "Twitter",
+  "Facebook",
+  "LinkedIn",
+  "Discord",
+  "Telegram",
+  "WhatsApp",
+  "Skype",
+  "Microsoft Teams",
+  "Pinterest",
+  "Reddit",
+]);
+
+export const isUnfurler = (bot: string | undefined) =>
+  bot !== undefined && UNFURLERS.has(bot);
+
+// Speculative loads that may never turn into a visit
+const PREFETCH_HEADERS: [header: string, pattern: RegExp][] = [
+  ["Sec-Purpose", /prefetch/i],
+  ["Purpose", /prefetch/i],
+  ["X-Purpose", /preview|prefetch/i],
+  ["X-Moz", /prefetch/i],
+];
+
+export const getBotName = (userAgent: string | undefined) => {
+  if (!userAgent) return "No user agent";
+  return KNOWN_BOTS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+};
+
+// Names the automated client behind a request, or undefined for a person.
+// HEAD requests and prefetches count as bots: nobody is being redirected.
+export const detectBot = (req: Request): string | undefined => {
+  if (req.method === "HEAD") return "HEAD request";
+  if (
+    PREFETCH_HEADERS.some(([header, pattern]) =>
+      pattern.test(req.get(header) ?? ""),
+    )
+  ) {
+    return "Prefetch";
+  }
+  return getBotName(req.get("User-Agent"));
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { gzipSync } from "zlib";
+import { describeLocation, loadGeoIpDatabase, parseGeoIpCsv } from "./geoip";
+
+const TEST_DB = path.join(import.meta.dirname, "../fixtures/geoip-test.csv");
+
+describe("offline GeoIP database", () => {
+  const db = loadGeoIpDatabase(TEST_DB);
+
+  it("should look up IPv4 ranges, including IPv4-mapped addresses", () => {
+    expect(db.size).toBe(6);
+    expect(db.lookup("192.0.2.10")).toEqual({
+      country: "DE",
+      region: "Berlin",
+      city: "Berlin",
+    });
+    expect(db.lookup("203.0.113.127")?.country).toBe("JP");
+    expect(db.lookup("203.0.113.128")?.country).toBe("AU");
+    expect(db.lookup("::ffff:198.51.100.7")?.city).toBe("San Francisco");
+    expect(db.lookup("8.8.8.8")).toBeUndefined();
+  });
+
+  it("should look up IPv6 ranges and keep quoted fields intact", () => {
+    expect(db.lookup("2001:db8::1")?.city).toBe("Paris");
+    expect(db.lookup("2001:db8:1:0:0:0:0:42")).toEqual({
+      country: "US",
+      region: "District of Columbia",
+      city: "Washington, D.C.",
+    });
+    expect(db.lookup("2001:db9::1")).toBeUndefined();
+    expect(db.lookup("not an ip")).toBeUndefined();
+  });
+
+  it("should load gzipped databases", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shortener-geoip-"));
+    try {
+      const file = path.join(dir, "geoip.csv.gz");
+      fs.writeFileSync(file, gzipSync(fs.readFileSync(TEST_DB)));
+      expect(loadGeoIpDatabase(file).lookup("192.0.2.1")?.country).toBe("DE");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject malformed rows after the header", () => {
+    expect(() =>
+      parseGeoIpCsv("1.0.0.0,1.0.0.255,OC,AU,,\nnonsense,row,,,,"),
+    ).toThrow(/line 2/);
+  });
+
+  it("should describe locations", () => {
+    expect(describeLocation({ country: "AU", city: "Sydney" })).toBe(
+      "Sydney, AU",
+    );
+  });
+});
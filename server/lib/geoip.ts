@@ -0,0 +1,163 @@
+import fs from "fs";
+import { isIPv4, isIPv6 } from "net";
+import { gunzipSync } from "zlib";
+
+export interface GeoLocation {
+  // ISO 3166-1 alpha-2, upper case
+  country: string;
+  region?: string;
+  city?: string;
+}
+
+export interface GeoIpDatabase {
+  lookup(ip: string): GeoLocation | undefined;
+  // Number of address ranges loaded
+  size: number;
+}
+
+interface Range {
+  start: bigint;
+  end: bigint;
+  location: GeoLocation;
+}
+
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+const ipv4ToBigInt = (ip: string) =>
+  ip
+    .split(".")
+    .reduce((value, octet) => (value << 8n) | BigInt(Number(octet)), 0n);
+
+const ipv6ToBigInt = (ip: string) => {
+  // An embedded IPv4 tail counts as the last two groups
+  const tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (tail) {
+    const v4 = ipv4ToBigInt(tail[1]);
+    ip =
+      ip.slice(0, -tail[1].length) +
+      `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+  const [head, rest] = ip.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const restGroups = rest ? rest.split(":") : [];
+  const groups =
+    rest === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(8 - headGroups.length - restGroups.length).fill("0"),
+          ...restGroups,
+        ];
+  return groups.reduce(
+    (value, group) => (value << 16n) | BigInt(parseInt(group, 16)),
+    0n,
+  );
+};
+
+// IPv4 addresses (including IPv4-mapped IPv6) and IPv6 addresses live in
+// separate tables so their numeric ranges cannot overlap
+const toKey = (ip: string): { v6: boolean; value: bigint } | undefined => {
+  const mapped = IPV4_MAPPED.exec(ip);
+  if (mapped) ip = mapped[1];
+  if (isIPv4(ip)) return { v6: false, value: ipv4ToBigInt(ip) };
+  if (isIPv6(ip)) return { v6: true, value: ipv6ToBigInt(ip) };
+  return undefined;
+};
+
+// Splits one CSV line, honouring double-quoted fields
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+const findRange = (ranges: Range[], value: bigint) => {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) high = mid - 1;
+    else if (value > range.end) low = mid + 1;
+    else return range;
+  }
+  return undefined;
+};
+
+/**
+ * Parses a city-level GeoIP database in the DB-IP "IP to City Lite" CSV
+ * layout: ip_start,ip_end,continent,country,stateprov,city[,lat,lon].
+ * Both IPv4 and IPv6 ranges are supported; a header row is optional.
+ */
+export function parseGeoIpCsv(content: string): GeoIpDatabase {
+  const tables = { v4: [] as Range[], v6: [] as Range[] };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [startIp, endIp, , country, region, city] = parseCsvLine(line);
+    const start = toKey(startIp);
+    const end = toKey(endIp);
+    if (!start || !end || start.v6 !== end.v6) {
+      // Tolerate a header row; anything else is a broken file
+      if (index === 0) return;
+      throw new Error(`Invalid GeoIP range on line ${index + 1}`);
+    }
+    if (!country || country === "ZZ") return;
+    tables[start.v6 ? "v6" : "v4"].push({
+      start: start.value,
+      end: end.value,
+      location: {
+        country: country.toUpperCase(),
+        region: region || undefined,
+        city: city || undefined,
+      },
+    });
+  });
+
+  const byStart = (a: Range, b: Range) =>
+    a.start < b.start ? -1 : a.start > b.start ? 1 : 0;
+  tables.v4.sort(byStart);
+  tables.v6.sort(byStart);
+
+  return {
+    lookup(ip) {
+      const key = toKey(ip);
+      if (!key) return undefined;
+      return findRange(key.v6 ? tables.v6 : tables.v4, key.value)?.location;
+    },
+    size: tables.v4.length + tables.v6.length,
+  };
+}
+
+// Loads a database file from disk; `.gz` files are decompressed first
+export function loadGeoIpDatabase(file: string): GeoIpDatabase {
+  const raw = fs.readFileSync(file);
+  const content = file.endsWith(".gz") ? gunzipSync(raw) : raw;
+  return parseGeoIpCsv(content.toString("utf8"));
+}
+
+// Readable summary stored as ClickData.location, e.g. "Berlin, Berlin, DE"
+export const describeLocation = (location: GeoLocation) =>
+  [location.city, location.region, location.country].filter(Boolean).join(", ");
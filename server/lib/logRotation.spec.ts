@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { gunzipSync } from "zlib";
+import { createRotatingLogFile } from "./logRotation";
+
+const entry = (action: string) => ({
+  timestamp: new Date().toISOString(),
+  action,
+  ip: "127.0.0.1",
+  userAgent: "test",
+});
+
+describe("rotating log file", () => {
+  const dirs: string[] = [];
+
+  const tempDir = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shortener-logs-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    dirs
+      .splice(0)
+      .forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it("should append entries to a dated NDJSON file", async () => {
+    const dir = tempDir();
+    const file = createRotatingLogFile({
+      dir,
+      maxFileBytes: 1024 * 1024,
+      maxAgeDays: 7,
+      now: () => new Date("2026-03-01T10:00:00Z"),
+    });
+    file.write(entry("ONE"));
+    file.write(entry("TWO"));
+    await file.close();
+
+    const lines = fs
+      .readFileSync(path.join(dir, "audit-2026-03-01.ndjson"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).action);
+    expect(lines).toEqual(["ONE", "TWO"]);
+  });
+
+  it("should rotate and gzip when the size limit is reached", async () => {
+    const dir = tempDir();
+    const file = createRotatingLogFile({
+      dir,
+      maxFileBytes: 150,
+      maxAgeDays: 7,
+      now: () => new Date("2026-03-01T10:00:00Z"),
+    });
+    file.write(entry("ONE"));
+    file.write(entry("TWO"));
+    await file.close();
+
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      "audit-2026-03-01.1.ndjson.gz",
+      "audit-2026-03-01.ndjson",
+    ]);
+    const rotated = gunzipSync(
+      fs.readFileSync(path.join(dir, "audit-2026-03-01.1.ndjson.gz")),
+    ).toString();
+    expect(JSON.parse(rotated).action).toBe("ONE");
+  });
+
+  it("should rotate at the day boundary", async () => {
+    const dir = tempDir();
+    let now = new Date("2026-03-01T23:59:59Z");
+    const file = createRotatingLogFile({
+      dir,
+      maxFileBytes: 1024 * 1024,
+      maxAgeDays: 7,
+      now: () => now,
+    });
+    file.write(entry("LATE"));
+    now = new Date("2026-03-02T00:00:01Z");
+    file.write(entry("EARLY"));
+    await file.close();
+
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      "audit-2026-03-01.1.ndjson.gz",
+      "audit-2026-03-02.ndjson",
+    ]);
+  });
+
+  it("should prune rotated files past the age limit", async () => {
+    const dir = tempDir();
+    const old = path.join(dir, "audit-2026-01-01.1.ndjson.gz");
+    fs.writeFileSync(old, "");
+    const past = new Date("2026-01-01T00:00:00Z");
+    fs.utimesSync(old, past, past);
+
+    const file = createRotatingLogFile({
+      dir,
+      maxFileBytes: 1024,
+      maxAgeDays: 7,
+      now: () => new Date("2026-03-01T10:00:00Z"),
+    });
+    await file.close();
+    expect(fs.existsSync(old)).toBe(false);
+  });
+});
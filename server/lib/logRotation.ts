@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import { LogEntry } from "@shared/api";
+
+export interface RotatingLogOptions {
+  dir: string;
+  prefix?: string;
+  // Rotate the active file once it would grow past this size
+  maxFileBytes: number;
+  // Delete rotated files older than this
+  maxAgeDays: number;
+  now?: () => Date;
+}
+
+export interface RotatingLogFile {
+  write(entry: LogEntry): void;
+  // Resolves once pending gzip jobs have finished
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Appends log entries as NDJSON to `<prefix>-YYYY-MM-DD.ndjson`. Files roll
+// over at midnight (UTC) or when they hit maxFileBytes; rolled files are
+// gzipped to `<prefix>-YYYY-MM-DD.N.ndjson.gz` and pruned after maxAgeDays.
+export function createRotatingLogFile(
+  options: RotatingLogOptions,
+): RotatingLogFile {
+  const { dir, prefix = "audit", maxFileBytes, maxAgeDays } = options;
+  const now = options.now ?? (() => new Date());
+  const activePattern = new RegExp(
+    `^${prefix}-(\\d{4}-\\d{2}-\\d{2})\\.ndjson$`,
+  );
+  const rotatedPattern = new RegExp(
+    `^${prefix}-\\d{4}-\\d{2}-\\d{2}\\.\\d+\\.ndjson(\\.gz)?$`,
+  );
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  const pending = new Set<Promise<void>>();
+  let fd: number | undefined;
+  let currentDate: string | undefined;
+  let size = 0;
+
+  const today = () => now().toISOString().slice(0, 10);
+  const activePath = (date: string) =>
+    path.join(dir, `${prefix}-${date}.ndjson`);
+
+  const compress = (file: string) => {
+    const job = pipeline(
+      fs.createReadStream(file),
+      createGzip(),
+      fs.createWriteStream(`${file}.gz`),
+    )
+      .then(() => fs.promises.unlink(file))
+      .catch((error) => {
+        console.error(`[URL_SHORTENER] Failed to compress ${file}:`, error);
+      })
+      .finally(() => pending.delete(job));
+    pending.add(job);
+  };
+
+  const prune = () => {
+    const cutoff = now().getTime() - maxAgeDays * DAY_MS;
+    for (const name of fs.readdirSync(dir)) {
+      if (!rotatedPattern.test(name)) continue;
+      const file = path.join(dir, name);
+      if (fs.statSync(file).mtimeMs < cutoff) fs.rmSync(file, { force: true });
+    }
+  };
+
+  // Moves an active file aside under the next free sequence number
+  const rotateFile = (date: string) => {
+    const source = activePath(date);
+    if (!fs.existsSync(source)) return;
+    let seq = 1;
+    const target = () => path.join(dir, `${prefix}-${date}.${seq}.ndjson`);
+    while (fs.existsSync(target()) || fs.existsSync(`${target()}.gz`)) seq++;
+    fs.renameSync(source, target());
+    compress(target());
+  };
+
+  const closeActive = () => {
+    if (fd !== undefined) fs.closeSync(fd);
+    fd = undefined;
+  };
+
+  const open = (date: string) => {
+    currentDate = date;
+    fd = fs.openSync(activePath(date), "a");
+    size = fs.fstatSync(fd).size;
+  };
+
+  // Roll over files left behind by a previous run on an earlier day
+  for (const name of fs.readdirSync(dir)) {
+    const match = activePattern.exec(name);
+    if (match && match[1] !== today()) rotateFile(match[1]);
+  }
+  prune();
+
+  return {
+    write(entry) {
+      const line = JSON.stringify(entry) + "\n";
+      const bytes = Buffer.byteLength(line);
+      const date = today();
+
+      if (fd === undefined) {
+        open(date);
+      } else if (
+        date !== currentDate ||
+        (size > 0 && size + bytes > maxFileBytes)
+      ) {
+        const previous = currentDate;
+        closeActive();
+        rotateFile(previous);
+        prune();
+        open(date);
+      }
+
+      fs.writeSync(fd, line);
+      size += bytes;
+    },
+
+    async flush() {
+      while (pending.size > 0) await Promise.all([...pending]);
+    },
+
+    async close() {
+      closeActive();
+      await this.flush();
+    },
+  };
+}
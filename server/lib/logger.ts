@@ -0,0 +1,37 @@
+import { Request } from "express";
+import { LogEntry } from "@shared/api";
+import { getRepository, UrlRepository } from "../storage";
+
+// Custom logger middleware
+export const log = (
+  action: string,
+  req: Request,
+  details?: Record<string, any>,
+) => {
+  const logEntry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    action,
+    ip: req.ip || req.socket?.remoteAddress || "unknown",
+    userAgent: req.get("User-Agent") || "unknown",
+    details: details || {},
+  };
+  getRepository(req).appendLog(logEntry);
+};
+
+// Logs an action taken by a background job rather than a request
+export const logSystem = (
+  repository: UrlRepository,
+  action: string,
+  details: Record<string, any> & { shortcode?: string } = {},
+  source = "system",
+) => {
+  const logEntry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    action,
+    shortcode: details.shortcode,
+    ip: "internal",
+    userAgent: source,
+    details,
+  };
+  repository.appendLog(logEntry);
+};
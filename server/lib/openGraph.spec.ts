@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { normalizeOpenGraph, validateOpenGraph } from "./openGraph";
+
+describe("Open Graph overrides", () => {
+  it("should validate fields and image URLs", () => {
+    expect(validateOpenGraph(undefined)).toBeUndefined();
+    expect(
+      validateOpenGraph({
+        title: "Spring Sale",
+        description: "Everything 20% off",
+        image: "https://cdn.example.com/sale.png",
+      }),
+    ).toBeUndefined();
+    expect(validateOpenGraph(["title"])).toMatch(/object/);
+    expect(validateOpenGraph({ url: "https://x.com" })).toMatch(
+      /Unknown Open Graph field/,
+    );
+    // Inherited keys are not fields
+    expect(validateOpenGraph({ constructor: "x" })).toMatch(
+      /Unknown Open Graph field/,
+    );
+    expect(validateOpenGraph({ title: "x".repeat(201) })).toMatch(/200/);
+    expect(validateOpenGraph({ image: "/card.png" })).toMatch(/http\(s\)/);
+    expect(validateOpenGraph({ image: "data:image/png;base64,AA" })).toMatch(
+      /http\(s\)/,
+    );
+  });
+
+  it("should drop blank fields", () => {
+    expect(normalizeOpenGraph({ title: " Sale ", description: "" })).toEqual({
+      title: "Sale",
+    });
+    expect(normalizeOpenGraph({ image: " " })).toBeUndefined();
+    expect(normalizeOpenGraph(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { OpenGraphOverrides } from "@shared/api";
+
+const MAX_LENGTHS: Record<keyof OpenGraphOverrides, number> = {
+  title: 200,
+  description: 500,
+  image: 2048,
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const validateOpenGraph = (openGraph: unknown): string | undefined => {
+  if (openGraph === undefined) return undefined;
+  if (!openGraph || typeof openGraph !== "object" || Array.isArray(openGraph)) {
+    return "Open Graph overrides must be an object";
+  }
+  for (const [field, value] of Object.entries(openGraph)) {
+    if (!Object.hasOwn(MAX_LENGTHS, field)) {
+      return `Unknown Open Graph field: ${field}`;
+    }
+    const max = MAX_LENGTHS[field as keyof OpenGraphOverrides];
+    if (typeof value !== "string" || value.length > max) {
+      return `Open Graph ${field} must be text of at most ${max} characters`;
+    }
+    // Unfurlers fetch the image themselves, so it must be reachable
+    if (field === "image" && value.trim() && !isHttpUrl(value.trim())) {
+      return "Open Graph image must be an http(s) URL";
+    }
+  }
+  return undefined;
+};
+
+// Drops blank fields; undefined when nothing is left
+export const normalizeOpenGraph = (
+  openGraph?: OpenGraphOverrides,
+): OpenGraphOverrides | undefined => {
+  const entries = Object.entries(openGraph ?? {})
+    .map(([field, value]) => [field, value?.trim()])
+    .filter(([, value]) => value);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
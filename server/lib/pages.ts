@@ -0,0 +1,327 @@
+import type { Response } from "express";
+import type { OpenGraphOverrides } from "@shared/api";
+import type { BrandingConfig } from "../config";
+
+export const DEFAULT_BRANDING: BrandingConfig = {
+  name: "URL Shortener",
+  primaryColor: "#2563eb",
+  backgroundColor: "#f8fafc",
+};
+
+export interface ErrorPage {
+  title: string;
+  message: string;
+  branding?: BrandingConfig;
+  // Extra actions shown above "Create New Short Link"
+  links?: { href: string; label: string }[];
+  // Reload without JavaScript, e.g. once a scheduled link opens
+  refreshAfterSeconds?: number;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Minimal standalone HTML so error responses render without the SPA
+export const renderErrorPage = ({
+  title,
+  message,
+  branding = DEFAULT_BRANDING,
+  links = [],
+  refreshAfterSeconds,
+}: ErrorPage) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    ${refreshAfterSeconds !== undefined ? `<meta http-equiv="refresh" content="${Math.max(1, Math.ceil(refreshAfterSeconds))}" />` : ""}
+    <title>${escapeHtml(title)} - ${escapeHtml(branding.name)}</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: ${branding.backgroundColor}; color: #1f2937; }
+      main { text-align: center; padding: 2rem; max-width: 32rem; }
+      .logo { max-height: 3rem; margin-bottom: 1rem; }
+      h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+      p { color: #4b5563; margin-bottom: 1.5rem; }
+      nav { display: flex; flex-direction: column; align-items: center; gap: 0.75rem; }
+      nav a { display: inline-block; padding: 0.5rem 1rem; border-radius: 0.375rem; background: ${branding.primaryColor}; color: #fff; text-decoration: none; }
+      .support { margin-top: 1.5rem; font-size: 0.875rem; }
+      .support a { color: ${branding.primaryColor}; }
+    </style>
+  </head>
+  <body>
+    <main>
+      ${branding.logoUrl ? `<img class="logo" src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" />` : ""}
+      <h1>${escapeHtml(title)}</h1>
+      <p>${escapeHtml(message)}</p>
+      <nav>
+        ${links.map(({ href, label }) => `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`).join("\n        ")}
+        <a href="/">Create New Short Link</a>
+      </nav>
+      ${branding.supportUrl ? `<p class="support">Need help? <a href="${escapeHtml(branding.supportUrl)}">Contact support</a></p>` : ""}
+    </main>
+  </body>
+</html>
+`;
+
+// Sends an error page with the branding from server config
+export const sendErrorPage = (res: Response, status: number, page: ErrorPage) =>
+  res
+    .status(status)
+    .type("html")
+    .send(
+      renderErrorPage({ branding: res.app.locals.config?.branding, ...page }),
+    );
+
+export interface UnlockPage {
+  shortcode: string;
+  // Where the form posts, when not /r/:shortcode
+  action?: string;
+  error?: string;
+}
+
+// Password prompt for protected links; posts back to /r/:shortcode
+export const renderUnlockPage = ({
+  shortcode,
+  action = `/r/${encodeURIComponent(shortcode)}`,
+  error,
+}: UnlockPage) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>Password Required</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #f8fafc; color: #1f2937; }
+      main { text-align: center; padding: 2rem; width: 100%; max-width: 22rem; }
+      h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+      p { color: #4b5563; margin-bottom: 1.5rem; }
+      .error { color: #dc2626; }
+      input { box-sizing: border-box; width: 100%; padding: 0.5rem 0.75rem; margin-bottom: 0.75rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font-size: 1rem; }
+      button { width: 100%; padding: 0.5rem 1rem; border: 0; border-radius: 0.375rem; background: #2563eb; color: #fff; font-size: 1rem; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Password Required</h1>
+      <p>This short link is protected. Enter the password to continue.</p>
+      ${error ? `<p class="error" role="alert">${escapeHtml(error)}</p>` : ""}
+      <form method="post" action="${escapeHtml(action)}">
+        <input type="password" name="password" aria-label="Password" required autofocus />
+        <button type="submit">Continue</button>
+      </form>
+    </main>
+  </body>
+</html>
+`;
+
+export interface LinkDetails {
+  // Omitted for password-protected and click-limited links
+  destination?: string;
+  // Shown in place of the domain when destination is omitted
+  hiddenNote?: string;
+  createdAt: string;
+  expiryTime: string;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname || url;
+  } catch {
+    return url;
+  }
+};
+
+const formatDate = (iso: string) =>
+  `<time datetime="${escapeHtml(iso)}">${escapeHtml(new Date(iso).toUTCString())}</time>`;
+
+const DETAILS_STYLE = `
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #f8fafc; color: #1f2937; }
+      main { padding: 2rem; width: 100%; max-width: 32rem; }
+      h1 { font-size: 1.5rem; margin-bottom: 0.5rem; text-align: center; }
+      p { color: #4b5563; text-align: center; }
+      dl { display: grid; grid-template-columns: auto 1fr; gap: 0.5rem 1rem; margin: 1.5rem 0; padding: 1rem; background: #fff; border: 1px solid #e5e7eb; border-radius: 0.5rem; }
+      dt { color: #6b7280; }
+      dd { margin: 0; word-break: break-all; }
+      .domain { font-weight: 600; font-size: 1.125rem; }
+      .destination { font-family: ui-monospace, monospace; font-size: 0.875rem; }
+      a.button, button { display: block; width: 100%; box-sizing: border-box; padding: 0.5rem 1rem; border: 0; border-radius: 0.375rem; background: #2563eb; color: #fff; font-size: 1rem; text-align: center; text-decoration: none; cursor: pointer; }`;
+
+const renderDetails = ({
+  destination,
+  hiddenNote = "Hidden until the password is entered",
+  createdAt,
+  expiryTime,
+}: LinkDetails) =>
+  `<dl>
+        <dt>Domain</dt>
+        <dd class="domain">${destination ? escapeHtml(hostnameOf(destination)) : escapeHtml(hiddenNote)}</dd>
+        ${destination ? `<dt>Destination</dt>\n        <dd class="destination">${escapeHtml(destination)}</dd>` : ""}
+        <dt>Created</dt>
+        <dd>${formatDate(createdAt)}</dd>
+        <dt>Expires</dt>
+        <dd>${formatDate(expiryTime)}</dd>
+      </dl>`;
+
+export interface PreviewPage extends LinkDetails {
+  shortcode: string;
+  // e.g. "Active" or "Expired"
+  status: string;
+  // Set when the destination depends on device, country or an A/B split
+  varies?: boolean;
+  continueUrl: string;
+}
+
+// /p/:shortcode: what a short link points to, without following it
+export const renderPreviewPage = (page: PreviewPage) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>Preview of /r/${escapeHtml(page.shortcode)}</title>
+    <style>${DETAILS_STYLE}
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Link Preview</h1>
+      <p>/r/${escapeHtml(page.shortcode)} &middot; ${escapeHtml(page.status)}</p>
+      ${renderDetails(page)}
+      ${page.varies ? "<p>The destination may differ by device, country or A/B test.</p>" : ""}
+      <a class="button" href="${escapeHtml(page.continueUrl)}" rel="nofollow">Continue to Link</a>
+    </main>
+  </body>
+</html>
+`;
+
+export interface InterstitialPage extends LinkDetails {
+  destination: string;
+  // Posting here counts the click and redirects
+  action: string;
+  autoContinueSeconds?: number;
+}
+
+export const MIN_INTERSTITIAL_SECONDS = 1;
+export const MAX_INTERSTITIAL_SECONDS = 60;
+
+export const isValidInterstitialSeconds = (value: unknown) =>
+  Number.isInteger(value) &&
+  (value as number) >= MIN_INTERSTITIAL_SECONDS &&
+  (value as number) <= MAX_INTERSTITIAL_SECONDS;
+
+// The countdown is written into an inline script, so whatever was stored
+// becomes a whole number in range (or no countdown) before it gets there
+const toCountdown = (value: unknown) => {
+  const seconds = Math.floor(Number(value));
+  if (!Number.isFinite(seconds) || seconds <= 0) return undefined;
+  return Math.min(
+    Math.max(seconds, MIN_INTERSTITIAL_SECONDS),
+    MAX_INTERSTITIAL_SECONDS,
+  );
+};
+
+// Shown before the redirect on links with interstitial mode turned on
+export const renderInterstitialPage = (page: InterstitialPage) => {
+  const countdown = toCountdown(page.autoContinueSeconds);
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>You Are Leaving for ${escapeHtml(hostnameOf(page.destination))}</title>
+    <style>${DETAILS_STYLE}
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>You Are About to Leave</h1>
+      <p>This short link goes to the site below. Continue only if you trust it.</p>
+      ${renderDetails(page)}
+      <form method="post" action="${escapeHtml(page.action)}">
+        <button type="submit">Continue</button>
+      </form>
+      ${
+        countdown
+          ? `<p>Continuing automatically in <span id="countdown">${countdown}</span> seconds.</p>
+      <script>
+        (() => {
+          let remaining = ${countdown};
+          const countdown = document.getElementById("countdown");
+          const timer = setInterval(() => {
+            remaining -= 1;
+            countdown.textContent = String(remaining);
+            if (remaining <= 0) {
+              clearInterval(timer);
+              document.forms[0].submit();
+            }
+          }, 1000);
+        })();
+      </script>`
+          : ""
+      }
+    </main>
+  </body>
+</html>
+`;
+};
+
+export interface OpenGraphPage {
+  openGraph: OpenGraphOverrides;
+  // The short link itself, so the card links back to it
+  shortUrl: string;
+  // Left out for click-limited links, which bots must not be able to read
+  destination?: string;
+  siteName: string;
+}
+
+// Served to link unfurlers instead of the redirect. The refresh only matters
+// to a browser that was mistaken for an unfurler.
+export const renderOpenGraphPage = ({
+  openGraph,
+  shortUrl,
+  destination,
+  siteName,
+}: OpenGraphPage) => {
+  const title =
+    openGraph.title ?? (destination ? hostnameOf(destination) : siteName);
+  const meta = [
+    ["og:type", "website"],
+    ["og:url", shortUrl],
+    ["og:site_name", siteName],
+    ["og:title", title],
+    ["og:description", openGraph.description],
+    ["og:image", openGraph.image],
+    ["twitter:card", openGraph.image ? "summary_large_image" : "summary"],
+    ["twitter:title", title],
+    ["twitter:description", openGraph.description],
+    ["twitter:image", openGraph.image],
+  ]
+    .filter(([, content]) => content)
+    .map(
+      ([property, content]) =>
+        `<meta ${property.startsWith("og:") ? "property" : "name"}="${property}" content="${escapeHtml(content!)}" />`,
+    );
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="robots" content="noindex" />
+    ${destination ? `<meta http-equiv="refresh" content="0; url=${escapeHtml(destination)}" />` : ""}
+    <title>${escapeHtml(title)}</title>
+    ${openGraph.description ? `<meta name="description" content="${escapeHtml(openGraph.description)}" />` : ""}
+    ${meta.join("\n    ")}
+  </head>
+  <body>
+    <p>${destination ? `<a href="${escapeHtml(destination)}">${escapeHtml(title)}</a>` : escapeHtml(title)}</p>
+  </body>
+</html>
+`;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { hashPassword, isValidPasswordHash, verifyPassword } from "./password";
+
+describe("password hashing", () => {
+  it("should verify the original password only", async () => {
+    const hash = await hashPassword("hunter22");
+    expect(hash).not.toContain("hunter22");
+    expect(await verifyPassword("hunter22", hash)).toBe(true);
+    expect(await verifyPassword("hunter23", hash)).toBe(false);
+  });
+
+  it("should hash without blocking the event loop", async () => {
+    let ticked = false;
+    setImmediate(() => {
+      ticked = true;
+    });
+    await hashPassword("hunter22");
+    expect(ticked).toBe(true);
+  });
+
+  it("should salt each hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("should reject malformed hashes", async () => {
+    expect(await verifyPassword("anything", "plaintext")).toBe(false);
+  });
+
+  it("should only accept hashes with the fixed cost", async () => {
+    const hash = await hashPassword("hunter22");
+    expect(isValidPasswordHash(hash)).toBe(true);
+    const costly = hash.replace("$16384$", "$1048576$");
+    expect(isValidPasswordHash(costly)).toBe(false);
+    expect(await verifyPassword("hunter22", costly)).toBe(false);
+  });
+});
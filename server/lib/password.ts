@@ -0,0 +1,57 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const COST = 16384;
+const SALT_LENGTH = 16;
+
+// Runs on the libuv thread pool, so a burst of unlock attempts never stalls
+// other requests
+const deriveKey = (password: string, salt: Buffer, length: number) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, length, { N: COST }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+// Stored as "scrypt$<cost>$<salt>$<hash>" (salt and hash base64)
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, KEY_LENGTH);
+  return [
+    "scrypt",
+    COST,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+};
+
+// Only what hashPassword writes. The cost in particular is never taken from
+// stored data, which could otherwise make every unlock arbitrarily slow.
+export const isValidPasswordHash = (stored: unknown): stored is string => {
+  if (typeof stored !== "string") return false;
+  const [scheme, cost, salt, hash, ...rest] = stored.split("$");
+  return (
+    scheme === "scrypt" &&
+    cost === String(COST) &&
+    rest.length === 0 &&
+    /^[A-Za-z0-9+/]+=*$/.test(salt ?? "") &&
+    /^[A-Za-z0-9+/]+=*$/.test(hash ?? "") &&
+    Buffer.from(salt, "base64").length === SALT_LENGTH &&
+    Buffer.from(hash, "base64").length === KEY_LENGTH
+  );
+};
+
+export const verifyPassword = async (
+  password: string,
+  stored: string,
+): Promise<boolean> => {
+  if (!isValidPasswordHash(stored)) return false;
+  const [, , salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { appendPath } from "./pathForwarding";
+
+describe("path forwarding", () => {
+  it("should join segments onto the destination path", () => {
+    expect(appendPath("https://docs.example.com", ["api", "v2"])).toBe(
+      "https://docs.example.com/api/v2",
+    );
+    expect(appendPath("https://example.com/docs/", ["api", "v2"])).toBe(
+      "https://example.com/docs/api/v2",
+    );
+    expect(appendPath("https://example.com/docs", ["api", ""])).toBe(
+      "https://example.com/docs/api/",
+    );
+  });
+
+  it("should keep the destination's query string and fragment", () => {
+    expect(appendPath("https://example.com/docs?lang=en#top", ["auth"])).toBe(
+      "https://example.com/docs/auth?lang=en#top",
+    );
+  });
+
+  it("should re-encode decoded segments", () => {
+    expect(appendPath("https://example.com", ["a/b", "c d", "?x"])).toBe(
+      "https://example.com/a%2Fb/c%20d/%3Fx",
+    );
+  });
+
+  it("should drop dot and empty segments", () => {
+    expect(appendPath("https://example.com/docs", ["..", "..", "etc"])).toBe(
+      "https://example.com/docs/etc",
+    );
+    expect(appendPath("https://example.com/docs", ["a", "", "b"])).toBe(
+      "https://example.com/docs/a/b",
+    );
+    expect(appendPath("https://example.com/docs", [".", ""])).toBe(
+      "https://example.com/docs",
+    );
+  });
+
+  it("should leave app deep links alone", () => {
+    expect(appendPath("myapp://open", ["x"])).toBe("myapp://open");
+  });
+});
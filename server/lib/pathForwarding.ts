@@ -0,0 +1,41 @@
+import { Request } from "express";
+
+// Trailing segments of /r/:shortcode{/*path}. Express 5 hands the wildcard
+// over as an array of decoded segments, despite typing params as strings.
+export const getForwardedPath = (req: Request): string[] | undefined => {
+  const path: unknown = req.params.path;
+  return Array.isArray(path) && path.length > 0 ? path : undefined;
+};
+
+// Dot and empty segments never reach a destination
+export const meaningfulSegments = (path: string[]) =>
+  path.filter(
+    (segment) => segment !== "" && segment !== "." && segment !== "..",
+  );
+
+// Appends forwarded segments to an http(s) destination, go-links style:
+// https://example.com/docs/ + ["api", "v2"] -> https://example.com/docs/api/v2
+// A trailing empty segment means the visitor's URL ended in a slash. The
+// destination's query string and fragment are kept, and dot segments are
+// dropped so a visitor cannot climb above the destination's own path.
+export const appendPath = (destination: string, path: string[]) => {
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return destination;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return destination;
+  }
+
+  const segments = meaningfulSegments(path);
+  if (segments.length === 0) return destination;
+
+  const trailingSlash = path[path.length - 1] === "" ? "/" : "";
+  url.pathname =
+    url.pathname.replace(/\/+$/, "") +
+    segments.map((segment) => `/${encodeURIComponent(segment)}`).join("") +
+    trailingSlash;
+  return url.toString();
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { isPrivateAddress } from "./privateNetworks";
+
+describe("isPrivateAddress", () => {
+  it("should flag loopback, private, link-local and mapped addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.0.10",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("should allow public addresses", () => {
+    for (const address of [
+      "93.184.216.34",
+      "8.8.8.8",
+      "192.0.2.10",
+      "2606:4700::1111",
+      "unknown",
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
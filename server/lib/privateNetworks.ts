@@ -0,0 +1,63 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Loopback, private, link-local (including cloud metadata at
+// 169.254.169.254), carrier-grade NAT, multicast and reserved ranges.
+// Server-side requests to user-supplied URLs must never reach these.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 can point anywhere, including above. (BlockList already checks
+  // IPv4-mapped addresses such as ::ffff:127.0.0.1 against the IPv4 ranges.)
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+// False for anything that is not an IP address
+export const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+export class PrivateDestinationError extends Error {}
+
+// Resolves the URL's host and throws unless every address it resolves to is
+// public. Hosts in allowedHosts (e.g. a local stand-in server) are exempt.
+// The request made afterwards resolves the name again, so this narrows but
+// does not close the window for DNS rebinding.
+export const assertPublicDestination = async (
+  url: URL,
+  allowedHosts: string[] = [],
+) => {
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (allowedHosts.includes(host)) return;
+
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new PrivateDestinationError(
+      `${host} resolves to private address ${blocked.address}`,
+    );
+  }
+};
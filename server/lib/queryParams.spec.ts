@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendQueryParams,
+  getVisitorQuery,
+  normalizeUtm,
+  utmSearchParams,
+  validateUtm,
+} from "./queryParams";
+
+describe("query parameters", () => {
+  it("should never repeat a key the destination already has", () => {
+    expect(
+      appendQueryParams(
+        "https://example.com/page?utm_source=site&a=1",
+        new URLSearchParams("a=2&ref=x"),
+        utmSearchParams({ source: "newsletter", medium: "email" }),
+      ),
+    ).toBe(
+      "https://example.com/page?utm_source=site&a=1&ref=x&utm_medium=email",
+    );
+  });
+
+  it("should let visitor parameters win over UTM defaults", () => {
+    expect(
+      appendQueryParams(
+        "https://example.com/",
+        new URLSearchParams("utm_source=twitter&tag=a&tag=b"),
+        utmSearchParams({ source: "newsletter" }),
+      ),
+    ).toBe("https://example.com/?utm_source=twitter&tag=a&tag=b");
+  });
+
+  it("should keep fragments and leave app deep links alone", () => {
+    expect(
+      appendQueryParams(
+        "https://example.com/docs#intro",
+        new URLSearchParams("ref=x"),
+      ),
+    ).toBe("https://example.com/docs?ref=x#intro");
+    expect(
+      appendQueryParams("myapp://open", new URLSearchParams("ref=x")),
+    ).toBe("myapp://open");
+    expect(
+      appendQueryParams("https://example.com/a", new URLSearchParams()),
+    ).toBe("https://example.com/a");
+  });
+
+  it("should read the raw query string of a request URL", () => {
+    expect(getVisitorQuery("/r/abc").size).toBe(0);
+    expect(getVisitorQuery("/r/abc?ref=x&ref=y").getAll("ref")).toEqual([
+      "x",
+      "y",
+    ]);
+  });
+
+  it("should validate and tidy UTM defaults", () => {
+    expect(validateUtm(undefined)).toBeUndefined();
+    expect(validateUtm({ source: "newsletter" })).toBeUndefined();
+    expect(validateUtm({ channel: "x" })).toMatch(/Unknown UTM field/);
+    expect(validateUtm({ source: 5 })).toMatch(/utm_source/);
+    expect(validateUtm("source")).toMatch(/object/);
+    expect(normalizeUtm({ source: " news ", medium: "" })).toEqual({
+      source: "news",
+    });
+    expect(normalizeUtm({ medium: " " })).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { UtmParams } from "@shared/api";
+
+export const UTM_FIELDS = [
+  "source",
+  "medium",
+  "campaign",
+  "term",
+  "content",
+] as const satisfies readonly (keyof UtmParams)[];
+
+const MAX_UTM_LENGTH = 200;
+
+export const validateUtm = (utm: unknown): string | undefined => {
+  if (utm === undefined) return undefined;
+  if (!utm || typeof utm !== "object" || Array.isArray(utm)) {
+    return "UTM defaults must be an object";
+  }
+  for (const [field, value] of Object.entries(utm)) {
+    if (!(UTM_FIELDS as readonly string[]).includes(field)) {
+      return `Unknown UTM field: ${field}`;
+    }
+    if (typeof value !== "string" || value.length > MAX_UTM_LENGTH) {
+      return `utm_${field} must be text of at most ${MAX_UTM_LENGTH} characters`;
+    }
+  }
+  return undefined;
+};
+
+// Drops blank fields; undefined when nothing is left
+export const normalizeUtm = (utm?: UtmParams): UtmParams | undefined => {
+  const entries = Object.entries(utm ?? {})
+    .map(([field, value]) => [field, value?.trim()])
+    .filter(([, value]) => value);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// The raw query string of a request URL, repeated keys included
+export const getVisitorQuery = (url: string) => {
+  const index = url.indexOf("?");
+  return new URLSearchParams(index === -1 ? "" : url.slice(index + 1));
+};
+
+// Adds parameters to an http(s) destination. Keys already in the destination
+// are never overwritten or repeated; earlier sources win over later ones.
+export const appendQueryParams = (
+  destination: string,
+  ...sources: URLSearchParams[]
+) => {
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return destination;
+  }
+  // App deep links (intent://, myapp://) have their own query conventions
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return destination;
+  }
+
+  const taken = new Set(url.searchParams.keys());
+  let changed = false;
+  for (const params of sources) {
+    const added = new Set<string>();
+    for (const [key, value] of params) {
+      if (taken.has(key)) continue;
+      url.searchParams.append(key, value);
+      added.add(key);
+      changed = true;
+    }
+    added.forEach((key) => taken.add(key));
+  }
+  return changed ? url.toString() : destination;
+};
+
+export const utmSearchParams = (utm?: UtmParams) =>
+  new URLSearchParams(
+    UTM_FIELDS.filter((field) => utm?.[field]).map((field) => [
+      `utm_${field}`,
+      utm![field]!,
+    ]),
+  );
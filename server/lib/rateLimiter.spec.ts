@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe("createRateLimiter", () => {
+  it("should block a key after the limit until the window resets", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+
+    expect(limiter.hit("a", 0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.hit("a", 10)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.hit("a", 20)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 980,
+    });
+    expect(limiter.hit("b", 20).allowed).toBe(true);
+
+    expect(limiter.hit("a", 1000).allowed).toBe(true);
+  });
+
+  it("should forget a key on reset", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.hit("a", 0);
+    expect(limiter.hit("a", 1).allowed).toBe(false);
+
+    limiter.reset("a");
+    expect(limiter.hit("a", 2).allowed).toBe(true);
+  });
+});
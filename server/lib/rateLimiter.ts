@@ -0,0 +1,61 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the window resets (0 when allowed)
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, now?: number): RateLimitResult;
+  reset(key: string): void;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+}
+
+// Fixed-window counter per key, held in memory
+export function createRateLimiter({
+  limit,
+  windowMs,
+}: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    hit(key, now = Date.now()) {
+      // Keep the map from growing without bound under many distinct keys
+      if (windows.size > 10_000) sweep(now);
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      if (window.count >= limit) {
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: window.resetAt - now,
+        };
+      }
+      window.count++;
+      return {
+        allowed: true,
+        remaining: limit - window.count,
+        retryAfterMs: 0,
+      };
+    },
+
+    reset(key) {
+      windows.delete(key);
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { CachePolicy, RedirectType, UrlRecord } from "@shared/api";
+
+export const REDIRECT_TYPES: RedirectType[] = [301, 302, 307, 308];
+export const CACHE_POLICIES: CachePolicy[] = ["no-store", "private", "public"];
+
+// 302 keeps every visit hitting the server so clicks are counted
+export const DEFAULT_REDIRECT_TYPE: RedirectType = 302;
+export const DEFAULT_CACHE_POLICY: CachePolicy = "no-store";
+export const DEFAULT_CACHE_MAX_AGE_SECONDS = 3600;
+
+// A UrlRecord, or the matching fields of a ShortenUrlRequest
+interface PolicyFields {
+  redirectType?: RedirectType;
+  cachePolicy?: CachePolicy;
+  maxClicks?: number;
+  activeFrom?: string;
+  countryDestinations?: object;
+  variants?: object[];
+}
+
+// Browsers and CDNs replay cached redirects without asking the server, so
+// click limits and activation windows only hold if every visit reaches us
+const needsEveryVisit = (record: PolicyFields) =>
+  record.maxClicks !== undefined || record.activeFrom !== undefined;
+
+// A shared cache would hand one visitor's country or A/B destination to the
+// next; only User-Agent (platform targeting) can be expressed with Vary
+const variesByVisitor = (record: PolicyFields) =>
+  Boolean(record.countryDestinations || record.variants);
+
+const isPermanent = (type: RedirectType) => type === 301 || type === 308;
+
+export const validateRedirectPolicy = (
+  record: PolicyFields,
+): string | undefined => {
+  const type = record.redirectType ?? DEFAULT_REDIRECT_TYPE;
+  const policy = record.cachePolicy ?? DEFAULT_CACHE_POLICY;
+  if (needsEveryVisit(record) && (isPermanent(type) || policy !== "no-store")) {
+    return "Links with a click limit or activation time must use a temporary redirect (302/307) and no-store caching";
+  }
+  if (variesByVisitor(record) && policy === "public") {
+    return "Country-targeted and A/B links cannot use public caching";
+  }
+  return undefined;
+};
+
+// Records created before per-link policies existed fall back to the defaults.
+// Combinations validateRedirectPolicy rejects (e.g. from older imports) are
+// downgraded rather than served as stored.
+export const getRedirectType = (record: UrlRecord): RedirectType => {
+  const type = record.redirectType ?? DEFAULT_REDIRECT_TYPE;
+  if (needsEveryVisit(record) && isPermanent(type)) {
+    return type === 308 ? 307 : 302;
+  }
+  return type;
+};
+
+export const getCacheControl = (record: UrlRecord): string => {
+  let policy = record.cachePolicy ?? DEFAULT_CACHE_POLICY;
+  if (needsEveryVisit(record)) policy = "no-store";
+  if (policy === "public" && variesByVisitor(record)) policy = "private";
+  if (policy === "no-store") return "no-store";
+  const maxAge = record.cacheMaxAgeSeconds ?? DEFAULT_CACHE_MAX_AGE_SECONDS;
+  return `${policy}, max-age=${maxAge}`;
+};
@@ -0,0 +1,412 @@
+import { Request } from "express";
+import { ClickData, UrlRecord } from "@shared/api";
+import type { ServerConfig } from "../config";
+import { getRepository } from "../storage";
+import { detectBot, isUnfurler } from "./bots";
+import { log } from "./logger";
+import { verifyPassword } from "./password";
+import { describeLocation, GeoIpDatabase } from "./geoip";
+import { isPrivateAddress } from "./privateNetworks";
+import { RateLimiter } from "./rateLimiter";
+import {
+  appendPath,
+  getForwardedPath,
+  meaningfulSegments,
+} from "./pathForwarding";
+import {
+  appendQueryParams,
+  getVisitorQuery,
+  utmSearchParams,
+} from "./queryParams";
+import { getStickyVariant } from "./stickyVariants";
+import { selectDestination } from "./targeting";
+import { fillTemplate, requiredSegments } from "./templates";
+import { getOperatingSystem, getPlatform } from "./userAgent";
+
+interface Failure<
+  Outcome extends string,
+  Status extends number,
+  Code extends string,
+> {
+  outcome: Outcome;
+  status: Status;
+  code: Code;
+  error: string;
+}
+
+// Expired links may still send visitors to a fallback destination
+type ExpiredFailure<Outcome extends string, Code extends string> = Failure<
+  Outcome,
+  410,
+  Code
+> & { record: UrlRecord; fallbackUrl?: string };
+
+export type LinkResolution =
+  | {
+      outcome: "redirect";
+      record: UrlRecord;
+      destination: string;
+      // A/B variant the visitor was sent to
+      variant?: string;
+    }
+  // Same as redirect, but no click was counted: the visitor confirms first
+  | {
+      outcome: "interstitial";
+      record: UrlRecord;
+      destination: string;
+      variant?: string;
+    }
+  // A link unfurler gets the Open Graph card; counted as a bot visit
+  | {
+      outcome: "unfurl";
+      record: UrlRecord;
+      destination: string;
+      variant?: string;
+    }
+  | Failure<"not_found", 404, "LINK_NOT_FOUND">
+  // Bots never use up a click limit, so they never learn the destination
+  // of a click-limited link either
+  | (Failure<"bot_withheld", 403, "HUMAN_VISIT_REQUIRED"> & {
+      record: UrlRecord;
+    })
+  | (Failure<"disabled", 403, "LINK_DISABLED"> & { record: UrlRecord })
+  | ExpiredFailure<"expired", "LINK_EXPIRED">
+  | ExpiredFailure<"click_limit_reached", "CLICK_LIMIT_REACHED">
+  | (Failure<"not_yet_active", 403, "LINK_NOT_YET_ACTIVE"> & {
+      record: UrlRecord;
+      retryAfterMs: number;
+    })
+  | (Failure<"password_required", 401, "PASSWORD_REQUIRED"> & {
+      record: UrlRecord;
+    })
+  | (Failure<"invalid_password", 401, "INVALID_PASSWORD"> & {
+      record: UrlRecord;
+    })
+  | (Failure<"missing_segments", 400, "MISSING_PATH_SEGMENTS"> & {
+      record: UrlRecord;
+      requiredSegments: number;
+    })
+  | (Failure<"too_many_attempts", 429, "TOO_MANY_ATTEMPTS"> & {
+      record: UrlRecord;
+      retryAfterMs: number;
+    });
+
+export interface ResolveOptions {
+  // Password submitted for a protected link
+  password?: string;
+  // Stop before counting the click on links that always show an interstitial
+  showInterstitial?: boolean;
+  // Answer unfurlers with the link's Open Graph card when it has one
+  unfurl?: boolean;
+}
+
+// Location fields for a click, from the offline GeoIP database if loaded
+const locateIp = (
+  geoip: GeoIpDatabase | undefined,
+  ip: string,
+): Pick<ClickData, "location" | "country" | "region" | "city"> => {
+  if (isPrivateAddress(ip)) return { location: "Local" };
+  const found = geoip?.lookup(ip);
+  if (!found) return { location: "Unknown Location" };
+  return { location: describeLocation(found), ...found };
+};
+
+// Applies template segments or path forwarding, then query parameters. The
+// destination's own parameters win, then the visitor's, then UTM defaults.
+export const finishDestination = (
+  req: Request,
+  record: UrlRecord,
+  target: string,
+) => {
+  const path = getForwardedPath(req);
+  return appendQueryParams(
+    record.template
+      ? fillTemplate(target, meaningfulSegments(path ?? []))
+      : path
+        ? appendPath(target, path)
+        : target,
+    record.forwardQuery
+      ? getVisitorQuery(req.originalUrl)
+      : new URLSearchParams(),
+    utmSearchParams(record.utm),
+  );
+};
+
+export const hasReachedClickLimit = (record: UrlRecord) =>
+  record.maxClicks !== undefined && record.totalClicks >= record.maxClicks;
+
+// Password-protected and click-limited links keep their destinations out of
+// previews, statistics and logs; only an unlock or a counted visit shows them
+export const hidesDestination = (
+  record: Pick<UrlRecord, "passwordHash" | "maxClicks">,
+) => Boolean(record.passwordHash) || record.maxClicks !== undefined;
+
+// Looks up a shortcode, enforces expiry and records the click on success.
+// Shared by the JSON API and the server-side /r/:shortcode redirect.
+export const resolveLink = async (
+  req: Request,
+  shortcode: string,
+  options: ResolveOptions = {},
+): Promise<LinkResolution> => {
+  const repository = getRepository(req);
+
+  log("REDIRECT_ATTEMPT", req, { shortcode });
+
+  // Find URL record
+  let urlRecord = repository.findByShortcode(shortcode);
+
+  if (!urlRecord) {
+    const error = "Shortened URL not found";
+    log("REDIRECT_ERROR", req, { error, shortcode });
+    return { outcome: "not_found", status: 404, code: "LINK_NOT_FOUND", error };
+  }
+
+  // /r/docs/anything only resolves when docs forwards paths or is a template
+  const path = getForwardedPath(req);
+  if (path && !urlRecord.forwardPath && !urlRecord.template) {
+    const error = "Shortened URL not found";
+    log("REDIRECT_ERROR", req, { error, shortcode, path: path.join("/") });
+    return { outcome: "not_found", status: 404, code: "LINK_NOT_FOUND", error };
+  }
+
+  // Disabled links stay disabled whatever their schedule; visits are not counted
+  if (urlRecord.disabled) {
+    const error = "Shortened URL has been disabled";
+    log("REDIRECT_ERROR", req, { error, shortcode });
+    return {
+      outcome: "disabled",
+      status: 403,
+      code: "LINK_DISABLED",
+      error,
+      record: urlRecord,
+    };
+  }
+
+  // Automated requests are counted apart from people and never use up a
+  // click limit, so link unfurlers cannot burn one-time links
+  const bot = detectBot(req);
+
+  // Visits after expiry are counted apart from totalClicks
+  const expire = (
+    record: UrlRecord,
+    reason: "expired" | "click_limit_reached",
+  ): LinkResolution => {
+    if (!record.isExpired) {
+      record = repository.updateLink(shortcode, { isExpired: true }) ?? record;
+    }
+    record =
+      (bot
+        ? repository.recordBotClick(shortcode, bot)
+        : repository.recordExpiredClick(shortcode)) ?? record;
+
+    const { redirects }: ServerConfig = req.app.locals.config;
+    const fallbackUrl =
+      record.expiredRedirectUrl ?? redirects.expiredFallbackUrl;
+    const error =
+      reason === "expired"
+        ? "Shortened URL has expired"
+        : "Shortened URL has reached its click limit";
+    log("REDIRECT_ERROR", req, { error, shortcode, fallbackUrl });
+
+    return reason === "expired"
+      ? {
+          outcome: reason,
+          status: 410,
+          code: "LINK_EXPIRED",
+          error,
+          record,
+          fallbackUrl,
+        }
+      : {
+          outcome: reason,
+          status: 410,
+          code: "CLICK_LIMIT_REACHED",
+          error,
+          record,
+          fallbackUrl,
+        };
+  };
+
+  if (hasReachedClickLimit(urlRecord)) {
+    return expire(urlRecord, "click_limit_reached");
+  }
+
+  // Check if expired
+  const now = new Date();
+  const expiryTime = new Date(urlRecord.expiryTime);
+
+  if (now > expiryTime) return expire(urlRecord, "expired");
+
+  // Scheduled links
+  if (urlRecord.activeFrom && now < new Date(urlRecord.activeFrom)) {
+    const error = "Shortened URL is not active yet";
+    log("REDIRECT_ERROR", req, { error, shortcode });
+    return {
+      outcome: "not_yet_active",
+      status: 403,
+      code: "LINK_NOT_YET_ACTIVE",
+      error,
+      record: urlRecord,
+      retryAfterMs: new Date(urlRecord.activeFrom).getTime() - now.getTime(),
+    };
+  }
+
+  // Protected links only count a click after a successful unlock
+  if (urlRecord.passwordHash) {
+    if (options.password === undefined) {
+      return {
+        outcome: "password_required",
+        status: 401,
+        code: "PASSWORD_REQUIRED",
+        error: "This link is password protected",
+        record: urlRecord,
+      };
+    }
+
+    const limiter: RateLimiter = req.app.locals.passwordLimiter;
+    const linkLimiter: RateLimiter = req.app.locals.linkPasswordLimiter;
+    const clientAttempt = limiter.hit(`${req.ip}:${shortcode}`);
+    // The per-link budget holds however many addresses a guesser uses
+    const attempt = clientAttempt.allowed
+      ? linkLimiter.hit(shortcode)
+      : clientAttempt;
+    if (!attempt.allowed) {
+      const error = "Too many password attempts";
+      log("UNLOCK_RATE_LIMITED", req, { error, shortcode });
+      return {
+        outcome: "too_many_attempts",
+        status: 429,
+        code: "TOO_MANY_ATTEMPTS",
+        error,
+        record: urlRecord,
+        retryAfterMs: attempt.retryAfterMs,
+      };
+    }
+
+    if (!(await verifyPassword(options.password, urlRecord.passwordHash))) {
+      const error = "Incorrect password";
+      log("UNLOCK_FAILED", req, { error, shortcode });
+      return {
+        outcome: "invalid_password",
+        status: 401,
+        code: "INVALID_PASSWORD",
+        error,
+        record: urlRecord,
+      };
+    }
+
+    limiter.reset(`${req.ip}:${shortcode}`);
+    log("UNLOCK_SUCCESS", req, { shortcode });
+    // Other requests ran while the hash was checked; pick up their clicks
+    urlRecord = repository.findByShortcode(shortcode) ?? urlRecord;
+  }
+
+  if (urlRecord.template) {
+    const required = requiredSegments(urlRecord.originalUrl);
+    const segments = meaningfulSegments(path ?? []).length;
+    if (segments < required) {
+      const error =
+        required === 1
+          ? `This link needs a value after /r/${shortcode}/`
+          : `This link needs ${required} path segments after /r/${shortcode}/, got ${segments}`;
+      log("REDIRECT_ERROR", req, { error, shortcode });
+      return {
+        outcome: "missing_segments",
+        status: 400,
+        code: "MISSING_PATH_SEGMENTS",
+        error,
+        record: urlRecord,
+        requiredSegments: required,
+      };
+    }
+  }
+
+  // Record click
+  const userAgent = req.get("User-Agent") || "unknown";
+  const clickData: ClickData = {
+    timestamp: new Date().toISOString(),
+    source: req.get("Referer") || "Direct",
+    ...locateIp(req.app.locals.geoip, req.ip || "unknown"),
+    userAgent,
+    ip: req.ip || "unknown",
+    platform: getPlatform(userAgent),
+    os: getOperatingSystem(userAgent),
+  };
+
+  const { url: target, variant } = selectDestination(
+    urlRecord,
+    clickData,
+    getStickyVariant(req, urlRecord),
+  );
+  if (variant) clickData.variant = variant;
+  const destination = finishDestination(req, urlRecord, target);
+  const loggedDestination = hidesDestination(urlRecord)
+    ? undefined
+    : destination;
+
+  if (options.unfurl && urlRecord.openGraph && isUnfurler(bot)) {
+    urlRecord = repository.recordBotClick(shortcode, bot!) ?? urlRecord;
+    log("BOT_UNFURL", req, { shortcode, bot });
+    return { outcome: "unfurl", record: urlRecord, destination, variant };
+  }
+
+  // Otherwise anyone could read a one-time link over and over by sending a
+  // bot user agent
+  if (bot && urlRecord.maxClicks !== undefined) {
+    urlRecord = repository.recordBotClick(shortcode, bot) ?? urlRecord;
+    const error = "Click-limited links only redirect people";
+    log("BOT_WITHHELD", req, { shortcode, bot });
+    return {
+      outcome: "bot_withheld",
+      status: 403,
+      code: "HUMAN_VISIT_REQUIRED",
+      error,
+      record: urlRecord,
+    };
+  }
+
+  if (options.showInterstitial && urlRecord.interstitial) {
+    log("INTERSTITIAL_SHOWN", req, {
+      shortcode,
+      destination: loggedDestination,
+      variant,
+    });
+    return { outcome: "interstitial", record: urlRecord, destination, variant };
+  }
+
+  if (bot) {
+    urlRecord = repository.recordBotClick(shortcode, bot) ?? urlRecord;
+    log("BOT_REDIRECT", req, {
+      shortcode,
+      bot,
+      destination: loggedDestination,
+    });
+    return { outcome: "redirect", record: urlRecord, destination, variant };
+  }
+
+  // appendClick refuses the click if a concurrent request used up the limit
+  const clicked = repository.appendClick(shortcode, clickData);
+  if (!clicked) return expire(urlRecord, "click_limit_reached");
+  urlRecord = clicked;
+  if (hasReachedClickLimit(urlRecord)) {
+    urlRecord =
+      repository.updateLink(shortcode, { isExpired: true }) ?? urlRecord;
+  }
+
+  log("REDIRECT_SUCCESS", req, {
+    shortcode,
+    originalUrl: loggedDestination && urlRecord.originalUrl,
+    destination: loggedDestination,
+    platform: clickData.platform,
+    country: clickData.country,
+    variant,
+    totalClicks: urlRecord.totalClicks,
+  });
+
+  return {
+    outcome: "redirect",
+    record: urlRecord,
+    destination,
+    variant,
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { createRingBuffer } from "./ringBuffer";
+
+describe("ring buffer", () => {
+  it("should evict the oldest items once full", () => {
+    const buffer = createRingBuffer<number>(3);
+    [1, 2, 3].forEach((n) => expect(buffer.push(n)).toBeUndefined());
+    expect(buffer.push(4)).toBe(1);
+    expect(buffer.push(5)).toBe(2);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(3);
+  });
+
+  it("should return the newest items oldest first", () => {
+    const buffer = createRingBuffer<number>(4);
+    [1, 2, 3, 4, 5, 6].forEach((n) => buffer.push(n));
+    expect(buffer.last(2)).toEqual([5, 6]);
+    expect(buffer.last(10)).toEqual([3, 4, 5, 6]);
+    expect(buffer.last(0)).toEqual([]);
+  });
+
+  it("should reject invalid capacities", () => {
+    expect(() => createRingBuffer(0)).toThrow();
+  });
+});
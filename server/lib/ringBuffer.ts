@@ -0,0 +1,61 @@
+// Fixed-capacity FIFO: once full, each push evicts the oldest item.
+export interface RingBuffer<T> {
+  push(item: T): T | undefined;
+  // The newest `limit` items, oldest first
+  last(limit: number): T[];
+  toArray(): T[];
+  clear(): void;
+  readonly size: number;
+  readonly capacity: number;
+}
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  if (!Number.isInteger(capacity) || capacity <= 0) {
+    throw new Error(`Ring buffer capacity must be a positive integer`);
+  }
+
+  let items: T[] = new Array(capacity);
+  let start = 0;
+  let size = 0;
+
+  const at = (index: number) => items[(start + index) % capacity];
+
+  return {
+    push(item) {
+      if (size < capacity) {
+        items[(start + size) % capacity] = item;
+        size++;
+        return undefined;
+      }
+      const evicted = items[start];
+      items[start] = item;
+      start = (start + 1) % capacity;
+      return evicted;
+    },
+
+    last(limit) {
+      const count = Math.max(0, Math.min(limit, size));
+      const result: T[] = [];
+      for (let i = size - count; i < size; i++) result.push(at(i));
+      return result;
+    },
+
+    toArray() {
+      return this.last(size);
+    },
+
+    clear() {
+      items = new Array(capacity);
+      start = 0;
+      size = 0;
+    },
+
+    get size() {
+      return size;
+    },
+
+    get capacity() {
+      return capacity;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { ClickData } from "@shared/api";
+import {
+  HOURLY_RETENTION,
+  applyClick,
+  buildRollups,
+  normalizeSource,
+  sumCounters,
+} from "./rollups";
+
+const IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148";
+const DESKTOP =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36";
+
+const click = (
+  timestamp: string,
+  overrides: Partial<ClickData> = {},
+): ClickData => ({
+  timestamp,
+  source: "Direct",
+  location: "Local",
+  userAgent: DESKTOP,
+  ip: "127.0.0.1",
+  ...overrides,
+});
+
+describe("click rollups", () => {
+  it("should count clicks per hour and day by source, location and device", () => {
+    const rollups = buildRollups([
+      click("2026-01-10T12:05:00Z"),
+      click("2026-01-10T12:40:00Z", {
+        source: "https://news.example.com/story?id=1",
+        userAgent: IPHONE,
+      }),
+      click("2026-01-10T15:00:00Z", { location: "Unknown Location" }),
+    ]);
+
+    expect(Object.keys(rollups.hourly)).toEqual([
+      "2026-01-10T12",
+      "2026-01-10T15",
+    ]);
+    expect(rollups.hourly["2026-01-10T12"]).toEqual({
+      total: 2,
+      bySource: { Direct: 1, "news.example.com": 1 },
+      byLocation: { Local: 2 },
+      byDevice: { desktop: 1, mobile: 1 },
+    });
+    expect(rollups.daily["2026-01-10"].total).toBe(3);
+  });
+
+  it("should not mutate the rollups it is given", () => {
+    const before = buildRollups([click("2026-01-10T12:00:00Z")]);
+    const after = applyClick(before, click("2026-01-10T12:30:00Z"));
+    expect(before.hourly["2026-01-10T12"].total).toBe(1);
+    expect(after.hourly["2026-01-10T12"].total).toBe(2);
+  });
+
+  it("should drop hourly buckets past retention", () => {
+    const start = Date.parse("2026-01-01T00:00:00Z");
+    const clicks = Array.from({ length: HOURLY_RETENTION + 5 }, (_, hour) =>
+      click(new Date(start + hour * 3_600_000).toISOString()),
+    );
+    const rollups = buildRollups(clicks);
+    expect(Object.keys(rollups.hourly)).toHaveLength(HOURLY_RETENTION);
+    expect(rollups.hourly["2026-01-01T00"]).toBeUndefined();
+    expect(sumCounters(Object.values(rollups.daily)).total).toBe(clicks.length);
+  });
+
+  it("should count A/B variants only when a click has one", () => {
+    const rollups = buildRollups([
+      click("2026-01-10T12:00:00Z", { variant: "A" }),
+      click("2026-01-10T12:10:00Z", { variant: "B" }),
+      click("2026-01-10T12:20:00Z", { variant: "A" }),
+      click("2026-01-11T09:00:00Z"),
+    ]);
+    expect(rollups.daily["2026-01-10"].byVariant).toEqual({ A: 2, B: 1 });
+    expect(rollups.daily["2026-01-11"].byVariant).toBeUndefined();
+    expect(sumCounters(Object.values(rollups.daily)).byVariant).toEqual({
+      A: 2,
+      B: 1,
+    });
+  });
+
+  it("should reduce referers to their host", () => {
+    expect(normalizeSource("https://t.co/abc")).toBe("t.co");
+    expect(normalizeSource("Direct")).toBe("Direct");
+    expect(normalizeSource("not a url")).toBe("not a url");
+  });
+});
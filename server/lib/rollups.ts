@@ -0,0 +1,121 @@
+import { ClickData, ClickRollups, RollupCounters } from "@shared/api";
+import { getDeviceType } from "./userAgent";
+
+// Buckets older than this are dropped as new clicks arrive
+export const HOURLY_RETENTION = 7 * 24;
+export const DAILY_RETENTION = 400;
+
+export type RollupDimension = "source" | "location" | "device" | "variant";
+
+export const emptyCounters = (): RollupCounters => ({
+  total: 0,
+  bySource: {},
+  byLocation: {},
+  byDevice: {},
+});
+
+export const emptyRollups = (): ClickRollups => ({ hourly: {}, daily: {} });
+
+export const hourBucket = (timestamp: string) => timestamp.slice(0, 13);
+export const dayBucket = (timestamp: string) => timestamp.slice(0, 10);
+
+// Referers are reduced to their host so the source breakdown stays small
+export const normalizeSource = (source: string) => {
+  if (!source || source === "Direct") return "Direct";
+  try {
+    return new URL(source).host || source;
+  } catch {
+    return source;
+  }
+};
+
+// The dimension keys a click is counted under; variant only for A/B links
+export const clickDimensions = (
+  click: ClickData,
+): Partial<Record<RollupDimension, string>> => ({
+  source: normalizeSource(click.source),
+  location: click.location || "Unknown Location",
+  device: getDeviceType(click.userAgent),
+  ...(click.variant && { variant: click.variant }),
+});
+
+const bump = (counts: Record<string, number>, key: string) => ({
+  ...counts,
+  [key]: (counts[key] ?? 0) + 1,
+});
+
+const increment = (
+  counters: RollupCounters = emptyCounters(),
+  click: ClickData,
+): RollupCounters => {
+  const { source, location, device, variant } = clickDimensions(click);
+  const next: RollupCounters = {
+    total: counters.total + 1,
+    bySource: bump(counters.bySource, source),
+    byLocation: bump(counters.byLocation, location),
+    byDevice: bump(counters.byDevice, device),
+  };
+  if (variant) next.byVariant = bump(counters.byVariant ?? {}, variant);
+  else if (counters.byVariant) next.byVariant = counters.byVariant;
+  return next;
+};
+
+const addToBuckets = (
+  buckets: Record<string, RollupCounters>,
+  key: string,
+  click: ClickData,
+  keep: number,
+) => {
+  const next = { ...buckets, [key]: increment(buckets[key], click) };
+  const keys = Object.keys(next).sort();
+  keys.slice(0, Math.max(0, keys.length - keep)).forEach((old) => {
+    delete next[old];
+  });
+  return next;
+};
+
+// Returns rollups with the click counted. Never mutates its input, so
+// repositories can hand the same rollups object to several readers.
+export const applyClick = (
+  rollups: ClickRollups = emptyRollups(),
+  click: ClickData,
+): ClickRollups => ({
+  hourly: addToBuckets(
+    rollups.hourly,
+    hourBucket(click.timestamp),
+    click,
+    HOURLY_RETENTION,
+  ),
+  daily: addToBuckets(
+    rollups.daily,
+    dayBucket(click.timestamp),
+    click,
+    DAILY_RETENTION,
+  ),
+});
+
+export const buildRollups = (clicks: ClickData[]) =>
+  clicks.reduce(applyClick, emptyRollups());
+
+// Sums a set of buckets into a single breakdown
+export const sumCounters = (buckets: RollupCounters[]): RollupCounters =>
+  buckets.reduce((sum, counters) => {
+    sum.total += counters.total;
+    for (const field of [
+      "bySource",
+      "byLocation",
+      "byDevice",
+      "byVariant",
+    ] as const) {
+      if (!counters[field]) continue;
+      const target = (sum[field] ??= {});
+      for (const [key, count] of Object.entries(counters[field])) {
+        target[key] = (target[key] ?? 0) + count;
+      }
+    }
+    return sum;
+  }, emptyCounters());
+
+// Breakdown over every daily bucket still kept (DAILY_RETENTION days)
+export const summarizeRollups = (rollups: ClickRollups = emptyRollups()) =>
+  sumCounters(Object.values(rollups.daily));
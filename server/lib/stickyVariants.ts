@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import { UrlRecord } from "@shared/api";
+
+const cookieName = (shortcode: string) => `ab_${shortcode}`;
+
+// Reads the visitor's assigned variant, if the link is sticky
+export const getStickyVariant = (req: Request, record: UrlRecord) => {
+  if (!record.stickyVariants) return undefined;
+  const name = cookieName(record.shortcode);
+  for (const pair of (req.get("Cookie") ?? "").split(";")) {
+    const [key, ...value] = pair.trim().split("=");
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join("="));
+    } catch {
+      // Malformed escapes: treat the visitor as new
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+// Remembers the variant until the link expires
+export const setStickyVariant = (
+  res: Response,
+  record: UrlRecord,
+  variant: string | undefined,
+) => {
+  if (!record.stickyVariants || !variant) return;
+  const maxAge = new Date(record.expiryTime).getTime() - Date.now();
+  res.cookie(cookieName(record.shortcode), variant, {
+    maxAge: Math.max(0, maxAge),
+    httpOnly: true,
+    sameSite: "lax",
+  });
+  res.vary("Cookie");
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { normalizeVariants, pickVariant, validateVariants } from "./targeting";
+
+const VARIANTS = [
+  { id: "A", url: "https://example.com/a", weight: 70 },
+  { id: "B", url: "https://example.com/b", weight: 30 },
+];
+
+describe("A/B variants", () => {
+  it("should pick variants in proportion to their weight", () => {
+    expect(pickVariant(VARIANTS, undefined, () => 0)?.id).toBe("A");
+    expect(pickVariant(VARIANTS, undefined, () => 0.69)?.id).toBe("A");
+    expect(pickVariant(VARIANTS, undefined, () => 0.7)?.id).toBe("B");
+    expect(pickVariant(VARIANTS, undefined, () => 0.999)?.id).toBe("B");
+  });
+
+  it("should honour a sticky id only while it still exists", () => {
+    expect(pickVariant(VARIANTS, "B", () => 0)?.id).toBe("B");
+    expect(pickVariant(VARIANTS, "Z", () => 0)?.id).toBe("A");
+    expect(pickVariant(undefined, "A")).toBeUndefined();
+  });
+
+  it("should validate variant lists", () => {
+    expect(validateVariants(undefined)).toBeUndefined();
+    expect(validateVariants(VARIANTS)).toBeUndefined();
+    expect(validateVariants([VARIANTS[0]])).toMatch(/at least two/);
+    expect(
+      validateVariants([VARIANTS[0], { ...VARIANTS[1], id: "A" }]),
+    ).toMatch(/Duplicate/);
+    expect(
+      validateVariants([VARIANTS[0], { ...VARIANTS[1], weight: 0 }]),
+    ).toMatch(/positive/);
+    expect(
+      validateVariants([VARIANTS[0], { ...VARIANTS[1], url: "javascript:x" }]),
+    ).toMatch(/Invalid URL/);
+  });
+
+  it("should assign letter ids to unnamed variants", () => {
+    expect(
+      normalizeVariants([
+        { url: "https://example.com/a", weight: 1 },
+        { url: "https://example.com/b", weight: 1 },
+      ])?.map(({ id }) => id),
+    ).toEqual(["A", "B"]);
+  });
+});
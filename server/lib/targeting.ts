@@ -0,0 +1,148 @@
+import {
+  ClickData,
+  DestinationVariant,
+  PlatformDestinations,
+  UrlRecord,
+  ShortenUrlRequest,
+} from "@shared/api";
+
+const TARGET_PLATFORMS: Record<string, keyof PlatformDestinations> = {
+  ios: "ios",
+  android: "android",
+  windows: "desktop",
+  macos: "desktop",
+  linux: "desktop",
+  chromeos: "desktop",
+};
+
+// Schemes that must never be used as a redirect target
+const UNSAFE_SCHEMES = ["javascript:", "data:", "vbscript:", "file:"];
+
+// Accepts web URLs as well as app deep links (myapp://, intent://, ...)
+export const isValidDestination = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    return !UNSAFE_SCHEMES.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Returns an error message, or undefined when the destinations are valid
+export const validatePlatformDestinations = (
+  destinations: unknown,
+): string | undefined => {
+  if (destinations === undefined) return undefined;
+  if (typeof destinations !== "object" || destinations === null) {
+    return "Platform destinations must be an object";
+  }
+  for (const [platform, url] of Object.entries(destinations)) {
+    if (!["ios", "android", "desktop"].includes(platform)) {
+      return `Unknown platform: ${platform}`;
+    }
+    if (url !== undefined && url !== "" && !isValidDestination(url)) {
+      return `Invalid ${platform} destination`;
+    }
+  }
+  return undefined;
+};
+
+export const validateCountryDestinations = (
+  destinations: unknown,
+): string | undefined => {
+  if (destinations === undefined) return undefined;
+  if (typeof destinations !== "object" || destinations === null) {
+    return "Country destinations must be an object";
+  }
+  for (const [country, url] of Object.entries(destinations)) {
+    if (!/^[a-z]{2}$/i.test(country)) {
+      return `Country must be a two-letter code: ${country}`;
+    }
+    if (!isValidDestination(url)) {
+      return `Invalid destination for ${country.toUpperCase()}`;
+    }
+  }
+  return undefined;
+};
+
+const MAX_VARIANTS = 10;
+
+// Weighted random choice; a still-valid sticky id wins
+export const pickVariant = (
+  variants: DestinationVariant[] | undefined,
+  stickyId?: string,
+  random = Math.random,
+): DestinationVariant | undefined => {
+  if (!variants?.length) return undefined;
+  const sticky = variants.find((variant) => variant.id === stickyId);
+  if (sticky) return sticky;
+
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let roll = random() * total;
+  for (const variant of variants) {
+    roll -= variant.weight;
+    if (roll < 0) return variant;
+  }
+  return variants[variants.length - 1];
+};
+
+export const validateVariants = (variants: unknown): string | undefined => {
+  if (variants === undefined) return undefined;
+  if (!Array.isArray(variants) || variants.length < 2) {
+    return "Variants must be a list of at least two destinations";
+  }
+  if (variants.length > MAX_VARIANTS) {
+    return `At most ${MAX_VARIANTS} variants are allowed`;
+  }
+  const ids = new Set<string>();
+  for (const [index, variant] of variants.entries()) {
+    const id = variant?.id ?? String.fromCharCode(65 + index);
+    if (!/^[a-zA-Z0-9_-]{1,32}$/.test(id)) {
+      return `Variant ids must be up to 32 letters, digits, - or _`;
+    }
+    if (ids.has(id)) return `Duplicate variant id: ${id}`;
+    ids.add(id);
+    if (!isValidDestination(variant?.url)) {
+      return `Invalid URL for variant ${id}`;
+    }
+    if (typeof variant.weight !== "number" || !(variant.weight > 0)) {
+      return `Weight for variant ${id} must be a positive number`;
+    }
+  }
+  return undefined;
+};
+
+// Fills in default ids ("A", "B", ...) and drops unknown fields
+export const normalizeVariants = (
+  variants?: ShortenUrlRequest["variants"],
+): DestinationVariant[] | undefined =>
+  variants?.map(({ id, url, weight }, index) => ({
+    id: id ?? String.fromCharCode(65 + index),
+    url,
+    weight,
+  }));
+
+export interface Destination {
+  url: string;
+  // Set when an A/B variant was chosen
+  variant?: string;
+}
+
+// Picks where this click should go. Platform destinations (usually app
+// links) win over country rules, then A/B variants, then originalUrl.
+export const selectDestination = (
+  record: UrlRecord,
+  click: ClickData,
+  stickyVariant?: string,
+): Destination => {
+  const target = TARGET_PLATFORMS[click.platform];
+  const targeted =
+    (target && record.platformDestinations?.[target]) ||
+    (click.country && record.countryDestinations?.[click.country]);
+  if (targeted) return { url: targeted };
+
+  const variant = pickVariant(record.variants, stickyVariant);
+  return variant
+    ? { url: variant.url, variant: variant.id }
+    : { url: record.originalUrl };
+};
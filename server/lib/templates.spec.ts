@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { fillTemplate, requiredSegments, validateTemplate } from "./templates";
+
+describe("template links", () => {
+  it("should count the segments a template needs", () => {
+    expect(requiredSegments("https://tracker.example.com/issues/{1}")).toBe(1);
+    expect(requiredSegments("https://example.com/{2}/pulls/{1}")).toBe(2);
+    expect(requiredSegments("https://example.com/search?q={*}")).toBe(1);
+    expect(requiredSegments("https://example.com/")).toBe(0);
+  });
+
+  it("should fill placeholders with encoded segments", () => {
+    expect(
+      fillTemplate("https://tracker.example.com/issues/{1}", ["ABC-123"]),
+    ).toBe("https://tracker.example.com/issues/ABC-123");
+    expect(
+      fillTemplate("https://example.com/{2}/pulls/{1}", ["42", "a b"]),
+    ).toBe("https://example.com/a%20b/pulls/42");
+    expect(fillTemplate("https://example.com/search?q={*}", ["a&b", "c"])).toBe(
+      "https://example.com/search?q=a%26b/c",
+    );
+  });
+
+  it("should reject templates without known placeholders", () => {
+    expect(validateTemplate("https://example.com/issues/{1}")).toBeUndefined();
+    expect(
+      validateTemplate("https://example.com/search?q={*}"),
+    ).toBeUndefined();
+    expect(validateTemplate("https://example.com/")).toMatch(/placeholder/);
+    expect(validateTemplate("https://example.com/{id}")).toMatch(
+      /Unknown placeholder \{id\}/,
+    );
+    expect(validateTemplate("{1}")).toBe("Invalid URL format");
+    expect(validateTemplate("javascript:{1}")).toBe("Invalid URL format");
+  });
+});
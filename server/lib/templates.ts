@@ -0,0 +1,43 @@
+import { isValidDestination } from "./targeting";
+
+// {1}, {2}, ... take single path segments; {*} takes all of them
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+const KNOWN_PLACEHOLDER = /^(?:[1-9]\d?|\*)$/;
+
+const placeholders = (template: string) =>
+  [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+
+// Segments a visitor must supply: the highest {n}, or one for a lone {*}
+export const requiredSegments = (template: string) =>
+  placeholders(template).reduce(
+    (required, name) => Math.max(required, name === "*" ? 1 : Number(name)),
+    0,
+  );
+
+// Substitutes URL-encoded segments; {*} keeps the slashes between them.
+// Callers check requiredSegments first.
+export const fillTemplate = (template: string, segments: string[]) =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (name === "*") return segments.map(encodeURIComponent).join("/");
+    const segment = segments[Number(name) - 1];
+    return segment === undefined ? placeholder : encodeURIComponent(segment);
+  });
+
+export const validateTemplate = (template: string): string | undefined => {
+  const names = placeholders(template);
+  if (names.length === 0) {
+    return "Template links need a placeholder such as {1} or {*}";
+  }
+  const unknown = names.find((name) => !KNOWN_PLACEHOLDER.test(name));
+  if (unknown !== undefined) {
+    return `Unknown placeholder {${unknown}}; use {1}, {2}, ... or {*}`;
+  }
+  const sample = Array.from(
+    { length: requiredSegments(template) },
+    (_, index) => `segment${index + 1}`,
+  );
+  if (!isValidDestination(fillTemplate(template, sample))) {
+    return "Invalid URL format";
+  }
+  return undefined;
+};
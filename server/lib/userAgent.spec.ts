@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { getDeviceType, getOperatingSystem, getPlatform } from "./userAgent";
+
+const AGENTS = {
+  iphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148",
+  ipad: "Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148",
+  android:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/120.0 Mobile Safari/537.36",
+  windows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36",
+  mac: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 Safari/605.1.15",
+  linux:
+    "Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0",
+  chromebook:
+    "Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36",
+  // "Microsoft" contains "cros"
+  outlook:
+    "Microsoft Office/16.0 (Windows NT 10.0; Microsoft Outlook 16.0.17029; Pro)",
+  webView2:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0 Microsoft Edge WebView2/120.0",
+  windowsPhone:
+    "Mozilla/5.0 (Windows Phone 10.0; Android 6.0.1; Microsoft; Lumia 950) Edge/15.14977",
+};
+
+describe("user agent parsing", () => {
+  it("should classify devices", () => {
+    expect(getDeviceType(AGENTS.iphone)).toBe("mobile");
+    expect(getDeviceType(AGENTS.ipad)).toBe("tablet");
+    expect(getDeviceType(AGENTS.windows)).toBe("desktop");
+    expect(getDeviceType("Googlebot/2.1")).toBe("bot");
+    expect(getDeviceType(undefined)).toBe("unknown");
+  });
+
+  it("should detect the platform despite overlapping tokens", () => {
+    expect(getPlatform(AGENTS.iphone)).toBe("ios");
+    expect(getPlatform(AGENTS.ipad)).toBe("ios");
+    expect(getPlatform(AGENTS.android)).toBe("android");
+    expect(getPlatform(AGENTS.windows)).toBe("windows");
+    expect(getPlatform(AGENTS.mac)).toBe("macos");
+    expect(getPlatform(AGENTS.linux)).toBe("linux");
+    expect(getPlatform(AGENTS.chromebook)).toBe("chromeos");
+    expect(getPlatform(AGENTS.outlook)).toBe("windows");
+    expect(getPlatform(AGENTS.webView2)).toBe("windows");
+    expect(getPlatform(AGENTS.windowsPhone)).toBe("other");
+    expect(getPlatform("curl/8.4.0")).toBe("other");
+  });
+
+  it("should name the OS with its version when available", () => {
+    expect(getOperatingSystem(AGENTS.iphone)).toBe("iOS 17.2");
+    expect(getOperatingSystem(AGENTS.android)).toBe("Android 14");
+    expect(getOperatingSystem(AGENTS.mac)).toBe("macOS 10.15");
+    expect(getOperatingSystem(AGENTS.windows)).toBe("Windows");
+    expect(getOperatingSystem(AGENTS.outlook)).toBe("Windows");
+    expect(getOperatingSystem(undefined)).toBe("Other");
+  });
+});
@@ -0,0 +1,63 @@
+import { Platform } from "@shared/api";
+
+export type DeviceType = "mobile" | "tablet" | "desktop" | "bot" | "unknown";
+
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|facebookexternalhit|preview|monitor/i;
+const TABLET_PATTERN = /ipad|tablet|playbook|silk|(android(?!.*mobile))/i;
+const MOBILE_PATTERN =
+  /mobi|iphone|ipod|android.*mobile|windows phone|blackberry/i;
+
+// Coarse device class from a User-Agent header
+export const getDeviceType = (userAgent: string | undefined): DeviceType => {
+  if (!userAgent || userAgent === "unknown") return "unknown";
+  if (BOT_PATTERN.test(userAgent)) return "bot";
+  if (TABLET_PATTERN.test(userAgent)) return "tablet";
+  if (MOBILE_PATTERN.test(userAgent)) return "mobile";
+  return "desktop";
+};
+
+// Checked in order: Android UAs mention Linux, iOS UAs mention Mac OS X
+const PLATFORM_PATTERNS: [Platform, RegExp][] = [
+  ["other", /windows phone/i],
+  ["ios", /iphone|ipad|ipod/i],
+  ["android", /android/i],
+  ["chromeos", /\bCrOS\b/],
+  ["windows", /windows/i],
+  ["macos", /macintosh|mac os x/i],
+  ["linux", /linux|x11/i],
+];
+
+export const getPlatform = (userAgent: string | undefined): Platform => {
+  if (!userAgent) return "other";
+  const match = PLATFORM_PATTERNS.find(([, pattern]) =>
+    pattern.test(userAgent),
+  );
+  return match ? match[0] : "other";
+};
+
+const OS_NAMES: Record<Platform, string> = {
+  ios: "iOS",
+  android: "Android",
+  windows: "Windows",
+  macos: "macOS",
+  linux: "Linux",
+  chromeos: "ChromeOS",
+  other: "Other",
+};
+
+const OS_VERSION_PATTERNS: Partial<Record<Platform, RegExp>> = {
+  ios: /OS (\d+(?:[_.]\d+)?)/,
+  android: /Android (\d+(?:\.\d+)?)/,
+  macos: /Mac OS X (\d+(?:[_.]\d+)?)/,
+};
+
+// Human-readable OS name with a major.minor version when the UA has one,
+// e.g. "iOS 17.2" or "Android 14"
+export const getOperatingSystem = (userAgent: string | undefined): string => {
+  const platform = getPlatform(userAgent);
+  const version = OS_VERSION_PATTERNS[platform]?.exec(userAgent ?? "")?.[1];
+  return version
+    ? `${OS_NAMES[platform]} ${version.replace("_", ".")}`
+    : OS_NAMES[platform];
+};
@@ -0,0 +1,36 @@
+import { RequestHandler } from "express";
+import { ErrorResponse, UpdateLinkRequest } from "@shared/api";
+import { getRepository } from "../storage";
+import { log } from "../lib/logger";
+
+// Disables or re-enables a link; disabled links answer with a 403 page
+export const updateLink: RequestHandler = (req, res) => {
+  try {
+    const { shortcode } = req.params;
+    const { disabled }: Partial<UpdateLinkRequest> = req.body ?? {};
+
+    if (typeof disabled !== "boolean") {
+      const error: ErrorResponse = {
+        error: "disabled must be true or false",
+        code: "INVALID_REQUEST",
+      };
+      return res.status(400).json(error);
+    }
+
+    const updated = getRepository(req).updateLink(shortcode, { disabled });
+    if (!updated) {
+      const error: ErrorResponse = {
+        error: "Shortened URL not found",
+        code: "LINK_NOT_FOUND",
+      };
+      return res.status(404).json(error);
+    }
+
+    log(disabled ? "LINK_DISABLED" : "LINK_ENABLED", req, { shortcode });
+    res.json({ shortcode, disabled: updated.disabled });
+  } catch (error) {
+    log("LINK_UPDATE_ERROR", req, { error: error.message });
+    const errorResponse: ErrorResponse = { error: "Internal server error" };
+    res.status(500).json(errorResponse);
+  }
+};
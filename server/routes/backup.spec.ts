@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { makeRecord, startTestServer, TestServer } from "../test-utils";
+
+const TOKEN = "secret-token";
+const auth = { Authorization: `Bearer ${TOKEN}` };
+
+const click = {
+  timestamp: new Date().toISOString(),
+  source: "Direct",
+  location: "Local",
+  userAgent: "test",
+  ip: "127.0.0.1",
+};
+
+describe("backup endpoints", () => {
+  let source: TestServer;
+  let target: TestServer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    source = await startTestServer({ ADMIN_TOKEN: TOKEN });
+    target = await startTestServer({ ADMIN_TOKEN: TOKEN });
+    source.repository.createLink(makeRecord("alpha"));
+    source.repository.appendClick("alpha", click);
+    source.repository.createLink(
+      makeRecord("beta", { archivedAt: new Date().toISOString() }),
+    );
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+    vi.restoreAllMocks();
+  });
+
+  const exportFrom = async (server: TestServer, format = "json") => {
+    const response = await fetch(
+      `${server.baseUrl}/api/admin/export?format=${format}`,
+      { headers: auth },
+    );
+    expect(response.status).toBe(200);
+    return response.text();
+  };
+
+  const importInto = (
+    server: TestServer,
+    body: string,
+    query = "",
+    contentType = "application/json",
+  ) =>
+    fetch(`${server.baseUrl}/api/admin/import${query}`, {
+      method: "POST",
+      headers: { ...auth, "Content-Type": contentType },
+      body,
+    });
+
+  it("should require a configured admin token", async () => {
+    const disabled = await startTestServer();
+    expect((await fetch(`${disabled.baseUrl}/api/admin/export`)).status).toBe(
+      403,
+    );
+    await disabled.close();
+
+    const response = await fetch(`${source.baseUrl}/api/admin/export`, {
+      headers: { Authorization: "Bearer wrong" },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("should export links, clicks and logs as a versioned archive", async () => {
+    const archive = JSON.parse(await exportFrom(source));
+    expect(archive).toMatchObject({
+      format: "url-shortener-backup",
+      version: 1,
+    });
+    expect(archive.links.map((r) => r.shortcode)).toEqual(["alpha", "beta"]);
+    expect(archive.links[0].clicks).toEqual([click]);
+  });
+
+  it.each(["json", "ndjson"])(
+    "should round-trip a %s archive",
+    async (format) => {
+      const body = await exportFrom(source, format);
+      const response = await importInto(
+        target,
+        body,
+        "",
+        format === "ndjson" ? "application/x-ndjson" : "application/json",
+      );
+      expect(response.status).toBe(200);
+      expect((await response.json()).created).toEqual(["alpha", "beta"]);
+
+      expect(target.repository.findByShortcode("alpha")).toMatchObject({
+        totalClicks: 1,
+        clicks: [click],
+      });
+      expect(target.repository.listArchivedLinks()).toHaveLength(1);
+    },
+  );
+
+  it("should report without changing anything on a dry run", async () => {
+    target.repository.createLink(
+      makeRecord("alpha", { originalUrl: "https://kept.example" }),
+    );
+    const body = await exportFrom(source);
+
+    const response = await importInto(
+      target,
+      body,
+      "?conflict=overwrite&dryRun=true",
+    );
+    expect(await response.json()).toMatchObject({
+      dryRun: true,
+      created: ["beta"],
+      overwritten: ["alpha"],
+    });
+    expect(target.repository.findByShortcode("alpha").originalUrl).toBe(
+      "https://kept.example",
+    );
+    expect(target.repository.shortcodeExists("beta")).toBe(false);
+  });
+
+  it("should resolve conflicts by skipping, overwriting or renaming", async () => {
+    target.repository.createLink(
+      makeRecord("alpha", { originalUrl: "https://kept.example" }),
+    );
+    const body = await exportFrom(source);
+
+    const skipped = await (
+      await importInto(target, body, "?conflict=skip")
+    ).json();
+    expect(skipped.skipped).toEqual(["alpha"]);
+    expect(target.repository.findByShortcode("alpha").originalUrl).toBe(
+      "https://kept.example",
+    );
+
+    const renamed = await (
+      await importInto(target, body, "?conflict=rename")
+    ).json();
+    expect(renamed.renamed).toEqual([
+      { from: "alpha", to: "alpha2" },
+      { from: "beta", to: "beta2" },
+    ]);
+    expect(target.repository.findByShortcode("alpha2")).toMatchObject({
+      originalUrl: "https://example.com/alpha",
+      shortenedUrl: "http://localhost/r/alpha2",
+    });
+
+    const overwritten = await (
+      await importInto(target, body, "?conflict=overwrite")
+    ).json();
+    expect(overwritten.overwritten).toEqual(["alpha", "beta"]);
+    expect(target.repository.findByShortcode("alpha").originalUrl).toBe(
+      "https://example.com/alpha",
+    );
+  });
+
+  it("should leave existing links alone when an overwrite is invalid", async () => {
+    target.repository.createLink(
+      makeRecord("alpha", { originalUrl: "https://kept.example" }),
+    );
+    const archive = JSON.parse(await exportFrom(source));
+    archive.links[0].clicks = [null];
+
+    const badClick = await importInto(
+      target,
+      JSON.stringify(archive),
+      "?conflict=overwrite",
+    );
+    expect(badClick.status).toBe(400);
+    expect((await badClick.json()).error).toMatch(/invalid click at index 0/);
+
+    delete archive.links[0].clicks;
+    delete archive.links[1].createdAt;
+    const missingField = await importInto(
+      target,
+      JSON.stringify(archive),
+      "?conflict=overwrite",
+    );
+    expect(missingField.status).toBe(400);
+
+    expect(target.repository.findByShortcode("alpha").originalUrl).toBe(
+      "https://kept.example",
+    );
+    expect(target.repository.shortcodeExists("beta")).toBe(false);
+  });
+
+  it("should reject settings the API would refuse", async () => {
+    const archive = JSON.parse(await exportFrom(source));
+    const cases: Record<string, unknown>[] = [
+      { originalUrl: "not a url" },
+      { originalUrl: "javascript:alert(1)" },
+      { interstitial: true, interstitialSeconds: "1;alert(document.cookie)//" },
+      { redirectType: 999 },
+      { cachePolicy: "forever" },
+      { maxClicks: 1, redirectType: 301 },
+      { passwordHash: "scrypt$1048576$AAAA$AAAA" },
+      { variants: [{ id: "A", url: "https://a.example", weight: 1 }] },
+      { utm: { source: 1 } },
+      { openGraph: { title: 5 } },
+      { openGraph: { constructor: "x" } },
+      { countryDestinations: { germany: "https://de.example" } },
+      { platformDestinations: { ios: "javascript:alert(1)" } },
+      { expiredRedirectUrl: "nope" },
+      { rollups: { hourly: { nope: {} }, daily: {} } },
+    ];
+
+    for (const overrides of cases) {
+      const response = await importInto(
+        target,
+        JSON.stringify({
+          ...archive,
+          links: [{ ...archive.links[0], ...overrides }],
+        }),
+      );
+      expect(response.status, JSON.stringify(overrides)).toBe(400);
+    }
+    expect(target.repository.listLinks()).toEqual([]);
+  });
+
+  it("should reject malformed archives", async () => {
+    const response = await importInto(target, JSON.stringify({ links: [] }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_ARCHIVE");
+
+    const badStrategy = await importInto(
+      target,
+      await exportFrom(source),
+      "?conflict=merge",
+    );
+    expect(badStrategy.status).toBe(400);
+  });
+});
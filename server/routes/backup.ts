@@ -0,0 +1,78 @@
+import { RequestHandler } from "express";
+import { ErrorResponse } from "@shared/api";
+import { getRepository } from "../storage";
+import { log } from "../lib/logger";
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  InvalidArchiveError,
+  exportArchive,
+  importArchive,
+  parseArchive,
+  toNdjson,
+} from "../lib/backup";
+
+// Export the full dataset as a versioned JSON (default) or NDJSON archive
+export const exportBackup: RequestHandler = (req, res) => {
+  try {
+    const format = req.query.format === "ndjson" ? "ndjson" : "json";
+    const archive = exportArchive(getRepository(req));
+    const filename = `shortener-backup-${archive.exportedAt.slice(0, 10)}.${format}`;
+
+    log("BACKUP_EXPORT", req, {
+      format,
+      links: archive.links.length,
+      logs: archive.logs.length,
+    });
+
+    res.set("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "ndjson") {
+      return res.type("application/x-ndjson").send(toNdjson(archive));
+    }
+    res.json(archive);
+  } catch (error) {
+    log("BACKUP_ERROR", req, { error: error.message });
+    const errorResponse: ErrorResponse = { error: "Internal server error" };
+    res.status(500).json(errorResponse);
+  }
+};
+
+// Import an archive. ?conflict=skip|overwrite|rename decides what happens to
+// shortcodes that already exist; ?dryRun=true only reports what would change.
+export const importBackup: RequestHandler = (req, res) => {
+  try {
+    const strategy = (req.query.conflict ?? "skip") as ConflictStrategy;
+    const dryRun = req.query.dryRun === "true" || req.query.dryRun === "1";
+
+    if (!CONFLICT_STRATEGIES.includes(strategy)) {
+      const error: ErrorResponse = {
+        error: `Conflict strategy must be one of ${CONFLICT_STRATEGIES.join(", ")}`,
+      };
+      return res.status(400).json(error);
+    }
+
+    const archive = parseArchive(req.body);
+    const report = importArchive(getRepository(req), archive, strategy, dryRun);
+
+    log(dryRun ? "BACKUP_IMPORT_DRY_RUN" : "BACKUP_IMPORT", req, {
+      strategy,
+      created: report.created.length,
+      overwritten: report.overwritten.length,
+      skipped: report.skipped.length,
+      renamed: report.renamed.length,
+    });
+
+    res.json(report);
+  } catch (error) {
+    if (error instanceof InvalidArchiveError) {
+      const errorResponse: ErrorResponse = {
+        error: error.message,
+        code: "INVALID_ARCHIVE",
+      };
+      return res.status(400).json(errorResponse);
+    }
+    log("BACKUP_ERROR", req, { error: error.message });
+    const errorResponse: ErrorResponse = { error: "Internal server error" };
+    res.status(500).json(errorResponse);
+  }
+};
@@ -0,0 +1,88 @@
+import { Request, RequestHandler } from "express";
+import { UrlRecord } from "@shared/api";
+import { log } from "../lib/logger";
+import { renderPreviewPage, sendErrorPage } from "../lib/pages";
+import { getForwardedPath, meaningfulSegments } from "../lib/pathForwarding";
+import {
+  finishDestination,
+  hasReachedClickLimit,
+  hidesDestination,
+} from "../lib/resolveLink";
+import { requiredSegments } from "../lib/templates";
+import { getRepository } from "../storage";
+
+const getStatus = (record: UrlRecord, now = Date.now()) => {
+  if (record.disabled) return "Disabled";
+  if (hasReachedClickLimit(record)) return "Click limit reached";
+  if (record.isExpired || now > new Date(record.expiryTime).getTime()) {
+    return "Expired";
+  }
+  if (record.activeFrom && now < new Date(record.activeFrom).getTime()) {
+    return `Not active until ${new Date(record.activeFrom).toUTCString()}`;
+  }
+  return "Active";
+};
+
+// Template links without their segments preview the raw template
+const previewDestination = (req: Request, record: UrlRecord) => {
+  const segments = meaningfulSegments(getForwardedPath(req) ?? []);
+  if (
+    record.template &&
+    segments.length < requiredSegments(record.originalUrl)
+  ) {
+    return record.originalUrl;
+  }
+  return finishDestination(req, record, record.originalUrl);
+};
+
+// /p/:shortcode shows where a link goes without counting a click
+export const handleLinkPreview: RequestHandler = (req, res) => {
+  try {
+    const { shortcode } = req.params;
+    const record = getRepository(req).findByShortcode(shortcode);
+    const path = getForwardedPath(req);
+
+    if (!record || (path && !record.forwardPath && !record.template)) {
+      log("PREVIEW_NOT_FOUND", req, { shortcode });
+      return sendErrorPage(res, 404, {
+        title: "Link Not Found",
+        message: "This short link does not exist.",
+      });
+    }
+
+    log("PREVIEW", req, { shortcode });
+    // Everything after /p is the short link itself: /p/docs/a?b -> /r/docs/a?b
+    const continueUrl = `/r${req.originalUrl.slice("/p".length)}`;
+    res
+      .set("Cache-Control", "no-store")
+      .type("html")
+      .send(
+        renderPreviewPage({
+          shortcode,
+          status: getStatus(record),
+          // Previews don't use up clicks, so they must not reveal a
+          // click-limited link's destination either
+          destination: hidesDestination(record)
+            ? undefined
+            : previewDestination(req, record),
+          hiddenNote: record.passwordHash
+            ? undefined
+            : "Hidden until the link is opened",
+          createdAt: record.createdAt,
+          expiryTime: record.expiryTime,
+          varies: Boolean(
+            record.platformDestinations ||
+              record.countryDestinations ||
+              record.variants,
+          ),
+          continueUrl,
+        }),
+      );
+  } catch (error) {
+    log("PREVIEW_ERROR", req, { error: error.message });
+    sendErrorPage(res, 500, {
+      title: "Something Went Wrong",
+      message: "We could not process this link. Please try again later.",
+    });
+  }
+};
@@ -0,0 +1,971 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import path from "path";
+import { makeRecord, startTestServer, TestServer } from "../test-utils";
+import { hashPassword } from "../lib/password";
+
+describe("GET /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(makeRecord("live"));
+    server.repository.createLink(
+      makeRecord("perm", {
+        redirectType: 301,
+        cachePolicy: "public",
+        cacheMaxAgeSeconds: 600,
+      }),
+    );
+    server.repository.createLink(makeRecord("once", { maxClicks: 1 }));
+    // Stored before such combinations were rejected
+    server.repository.createLink(
+      makeRecord("capped", {
+        maxClicks: 5,
+        redirectType: 308,
+        cachePolicy: "public",
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("soon", {
+        activeFrom: new Date(Date.now() + 30_000).toISOString(),
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("old", {
+        expiryTime: new Date(Date.now() - 1000).toISOString(),
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string, init: RequestInit = {}) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual", ...init });
+
+  it("should answer with a Location redirect and record the click", async () => {
+    const response = await visit("/r/live", {
+      headers: { Referer: "https://news.example.com/" },
+    });
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("https://example.com/live");
+
+    const record = server.repository.findByShortcode("live");
+    expect(record.totalClicks).toBe(1);
+    expect(record.clicks[0].source).toBe("https://news.example.com/");
+  });
+
+  it("should default to an uncached 302", async () => {
+    const response = await visit("/r/live");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+  });
+
+  it("should honor the link's redirect type and cache policy", async () => {
+    const response = await visit("/r/perm");
+    expect(response.status).toBe(301);
+    expect(response.headers.get("cache-control")).toBe("public, max-age=600");
+    expect(response.headers.get("location")).toBe("https://example.com/perm");
+  });
+
+  it("should never let caches replay click-limited links", async () => {
+    const response = await visit("/r/capped");
+    expect(response.status).toBe(307);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+  });
+
+  it("should render an HTML 404 page for unknown shortcodes", async () => {
+    const response = await visit("/r/missing");
+    expect(response.status).toBe(404);
+    expect(response.headers.get("content-type")).toMatch(/text\/html/);
+    expect(await response.text()).toContain("Link Not Found");
+  });
+
+  it("should stop redirecting one-time links after the first visit", async () => {
+    expect((await visit("/r/once")).status).toBe(302);
+
+    const second = await visit("/r/once");
+    expect(second.status).toBe(410);
+    expect(await second.text()).toContain("reached its click limit");
+    expect(server.repository.findByShortcode("once")).toMatchObject({
+      totalClicks: 1,
+      isExpired: true,
+    });
+
+    const api = await fetch(`${server.baseUrl}/api/redirect/once`);
+    expect(api.status).toBe(410);
+    expect(await api.json()).toMatchObject({ code: "CLICK_LIMIT_REACHED" });
+  });
+
+  it("should tell visitors of scheduled links when they open", async () => {
+    const { activeFrom } = server.repository.findByShortcode("soon");
+    const response = await visit("/r/soon");
+    expect(response.status).toBe(403);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+    expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0);
+    const html = await response.text();
+    expect(html).toContain(new Date(activeFrom).toUTCString());
+    expect(html).toContain('<meta http-equiv="refresh"');
+    expect(html).toContain(
+      `href="/upcoming/soon?activeFrom=${encodeURIComponent(activeFrom)}"`,
+    );
+
+    const api = await fetch(`${server.baseUrl}/api/redirect/soon`);
+    expect(api.status).toBe(403);
+    expect(Number(api.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect(await api.json()).toMatchObject({
+      code: "LINK_NOT_YET_ACTIVE",
+      activeFrom,
+    });
+    expect(server.repository.findByShortcode("soon").totalClicks).toBe(0);
+  });
+
+  it("should forward expired links to their fallback and count the visit apart", async () => {
+    server.repository.createLink(
+      makeRecord("ended", {
+        expiryTime: new Date(Date.now() - 1000).toISOString(),
+        expiredRedirectUrl: "https://example.com/campaign-ended",
+      }),
+    );
+
+    const response = await visit("/r/ended");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe(
+      "https://example.com/campaign-ended",
+    );
+    expect(response.headers.get("cache-control")).toBe("no-store");
+
+    const api = await fetch(`${server.baseUrl}/api/redirect/ended`);
+    expect(await api.json()).toMatchObject({
+      originalUrl: "https://example.com/campaign-ended",
+      success: true,
+      expired: true,
+    });
+    expect(server.repository.findByShortcode("ended")).toMatchObject({
+      totalClicks: 0,
+      expiredClicks: 2,
+    });
+  });
+
+  it("should render an HTML 410 page for expired links", async () => {
+    const response = await visit("/r/old");
+    expect(response.status).toBe(410);
+    expect(await response.text()).toContain("Link Expired");
+    expect(server.repository.findByShortcode("old")).toMatchObject({
+      isExpired: true,
+      totalClicks: 0,
+    });
+  });
+});
+
+describe("password-protected /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({
+      PASSWORD_MAX_ATTEMPTS: "2",
+      PASSWORD_MAX_ATTEMPTS_PER_LINK: "6",
+    });
+    server.repository.createLink(
+      makeRecord("locked", { passwordHash: await hashPassword("letmein") }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const submit = (password: string) =>
+    fetch(`${server.baseUrl}/r/locked`, {
+      method: "POST",
+      redirect: "manual",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ password }),
+    });
+
+  it("should prompt for the password without counting a click", async () => {
+    const response = await fetch(`${server.baseUrl}/r/locked`, {
+      redirect: "manual",
+    });
+    expect(response.status).toBe(401);
+    const html = await response.text();
+    expect(html).toContain('<form method="post" action="/r/locked">');
+    expect(server.repository.findByShortcode("locked").totalClicks).toBe(0);
+  });
+
+  it("should redirect with 303 once unlocked and reset the attempt count", async () => {
+    const wrong = await submit("wrong");
+    expect(wrong.status).toBe(401);
+    expect(await wrong.text()).toContain("Incorrect password");
+
+    const right = await submit("letmein");
+    expect(right.status).toBe(303);
+    expect(right.headers.get("location")).toBe("https://example.com/locked");
+    expect(right.headers.get("cache-control")).toBe("no-store");
+    expect(server.repository.findByShortcode("locked").totalClicks).toBe(1);
+  });
+
+  it("should rate limit repeated wrong passwords", async () => {
+    await submit("wrong");
+    await submit("wrong");
+    const limited = await submit("letmein");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBeTruthy();
+    expect(server.repository.findByShortcode("locked").totalClicks).toBe(1);
+  });
+
+  it("should not trust X-Forwarded-For from clients by default", async () => {
+    const limited = await fetch(`${server.baseUrl}/r/locked`, {
+      method: "POST",
+      redirect: "manual",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "X-Forwarded-For": "203.0.113.7",
+      },
+      body: new URLSearchParams({ password: "wrong" }),
+    });
+    expect(limited.status).toBe(429);
+  });
+});
+
+describe("per-link password attempt limit", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({
+      PASSWORD_MAX_ATTEMPTS: "3",
+      PASSWORD_MAX_ATTEMPTS_PER_LINK: "5",
+      TRUST_PROXY: "true",
+    });
+    server.repository.createLink(
+      makeRecord("vault", { passwordHash: await hashPassword("letmein") }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should limit guesses from rotating client addresses", async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      const response = await fetch(`${server.baseUrl}/r/vault`, {
+        method: "POST",
+        redirect: "manual",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "X-Forwarded-For": `203.0.113.${i}`,
+        },
+        body: new URLSearchParams({ password: "wrong" }),
+      });
+      statuses.push(response.status);
+    }
+    expect(statuses).toEqual([401, 401, 401, 401, 401, 429, 429, 429]);
+  });
+});
+
+describe("global expired fallback", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({
+      EXPIRED_FALLBACK_URL: "https://example.com/expired",
+    });
+    server.repository.createLink(
+      makeRecord("old", {
+        expiryTime: new Date(Date.now() - 1000).toISOString(),
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("own", {
+        expiryTime: new Date(Date.now() - 1000).toISOString(),
+        expiredRedirectUrl: "https://example.com/own",
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should apply to expired links without their own fallback", async () => {
+    const visit = (shortcode: string) =>
+      fetch(`${server.baseUrl}/r/${shortcode}`, { redirect: "manual" });
+
+    expect((await visit("old")).headers.get("location")).toBe(
+      "https://example.com/expired",
+    );
+    expect((await visit("own")).headers.get("location")).toBe(
+      "https://example.com/own",
+    );
+    expect((await visit("missing")).status).toBe(404);
+  });
+});
+
+describe("platform-targeted /r/:shortcode", () => {
+  let server: TestServer;
+
+  const IPHONE =
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148";
+  const ANDROID =
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/120.0 Mobile Safari/537.36";
+  const MAC =
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 Safari/605.1.15";
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("app", {
+        platformDestinations: {
+          ios: "https://apps.apple.com/app/id123",
+          android:
+            "intent://open#Intent;scheme=example;package=com.example;end",
+        },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visitAs = (userAgent: string) =>
+    fetch(`${server.baseUrl}/r/app`, {
+      redirect: "manual",
+      headers: { "User-Agent": userAgent },
+    });
+
+  it("should send each platform to its destination", async () => {
+    const ios = await visitAs(IPHONE);
+    expect(ios.headers.get("location")).toBe(
+      "https://apps.apple.com/app/id123",
+    );
+    expect(ios.headers.get("vary")).toMatch(/User-Agent/);
+
+    expect((await visitAs(ANDROID)).headers.get("location")).toBe(
+      "intent://open#Intent;scheme=example;package=com.example;end",
+    );
+    // No desktop destination: fall back to originalUrl
+    expect((await visitAs(MAC)).headers.get("location")).toBe(
+      "https://example.com/app",
+    );
+  });
+
+  it("should record the parsed platform on each click", () => {
+    const { clicks } = server.repository.findByShortcode("app");
+    expect(clicks.map(({ platform, os }) => [platform, os])).toEqual([
+      ["ios", "iOS 17.2"],
+      ["android", "Android 14"],
+      ["macos", "macOS 10.15"],
+    ]);
+  });
+});
+
+describe("geo-targeted /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({
+      GEOIP_DB: path.join(import.meta.dirname, "../fixtures/geoip-test.csv"),
+      TRUST_PROXY: "1",
+    });
+    server.repository.createLink(
+      makeRecord("shop", {
+        countryDestinations: { DE: "https://example.de/shop" },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visitFrom = (ip: string) =>
+    fetch(`${server.baseUrl}/r/shop`, {
+      redirect: "manual",
+      headers: { "X-Forwarded-For": ip },
+    });
+
+  it("should route visitors by country and record where they came from", async () => {
+    expect((await visitFrom("192.0.2.44")).headers.get("location")).toBe(
+      "https://example.de/shop",
+    );
+    expect((await visitFrom("198.51.100.9")).headers.get("location")).toBe(
+      "https://example.com/shop",
+    );
+
+    const { clicks } = server.repository.findByShortcode("shop");
+    expect(clicks[0]).toMatchObject({
+      country: "DE",
+      region: "Berlin",
+      city: "Berlin",
+      location: "Berlin, Berlin, DE",
+    });
+    expect(clicks[1]).toMatchObject({
+      country: "US",
+      location: "San Francisco, California, US",
+    });
+  });
+});
+
+describe("A/B split /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("split", {
+        variants: [
+          { id: "A", url: "https://example.com/a", weight: 1 },
+          { id: "B", url: "https://example.com/b", weight: 1 },
+        ],
+        stickyVariants: true,
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("loose", {
+        variants: [
+          { id: "A", url: "https://example.com/a", weight: 1 },
+          { id: "B", url: "https://example.com/b", weight: 1 },
+        ],
+        stickyVariants: false,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should pin visitors to their variant with a cookie", async () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0.9);
+    const first = await fetch(`${server.baseUrl}/r/split`, {
+      redirect: "manual",
+    });
+    expect(first.headers.get("location")).toBe("https://example.com/b");
+    expect(first.headers.get("set-cookie")).toMatch(/^ab_split=B;.*HttpOnly/);
+
+    vi.spyOn(Math, "random").mockReturnValueOnce(0);
+    const again = await fetch(`${server.baseUrl}/r/split`, {
+      redirect: "manual",
+      headers: { Cookie: "ab_split=B" },
+    });
+    expect(again.headers.get("location")).toBe("https://example.com/b");
+
+    const { clicks } = server.repository.findByShortcode("split");
+    expect(clicks.map(({ variant }) => variant)).toEqual(["B", "B"]);
+  });
+
+  it("should treat a malformed cookie as absent", async () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0);
+    const response = await fetch(`${server.baseUrl}/r/split`, {
+      redirect: "manual",
+      headers: { Cookie: "ab_split=%E0%A4%A" },
+    });
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("https://example.com/a");
+  });
+
+  it("should ignore the cookie when the link is not sticky", async () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0);
+    const response = await fetch(`${server.baseUrl}/r/loose`, {
+      redirect: "manual",
+      headers: { Cookie: "ab_loose=B" },
+    });
+    expect(response.headers.get("location")).toBe("https://example.com/a");
+    expect(response.headers.get("set-cookie")).toBeNull();
+  });
+});
+
+describe("query forwarding on /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("promo", {
+        originalUrl: "https://example.com/promo?utm_medium=social",
+        forwardQuery: true,
+        utm: { source: "shortener", medium: "email", campaign: "spring" },
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("plain", { utm: { source: "shortener" } }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual" });
+
+  it("should merge visitor parameters and UTM defaults without duplicates", async () => {
+    const response = await visit("/r/promo?ref=x&utm_source=friend");
+    expect(response.headers.get("location")).toBe(
+      "https://example.com/promo?utm_medium=social&ref=x&utm_source=friend&utm_campaign=spring",
+    );
+  });
+
+  it("should drop visitor parameters unless the link forwards them", async () => {
+    const response = await visit("/r/plain?ref=x");
+    expect(response.headers.get("location")).toBe(
+      "https://example.com/plain?utm_source=shortener",
+    );
+  });
+});
+
+describe("path forwarding on /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("docs", {
+        originalUrl: "https://docs.example.com/?lang=en",
+        forwardPath: true,
+        forwardQuery: true,
+      }),
+    );
+    server.repository.createLink(makeRecord("plain"));
+    server.repository.createLink(
+      makeRecord("vault", {
+        forwardPath: true,
+        passwordHash: await hashPassword("open sesame"),
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual" });
+
+  it("should append trailing segments to the destination", async () => {
+    const response = await visit("/r/docs/api/v2/auth?ref=x");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe(
+      "https://docs.example.com/api/v2/auth?lang=en&ref=x",
+    );
+    expect(server.repository.findByShortcode("docs").totalClicks).toBe(1);
+  });
+
+  it("should forward paths through the JSON redirect API", async () => {
+    const response = await fetch(`${server.baseUrl}/api/redirect/docs/guides`);
+    expect((await response.json()).originalUrl).toBe(
+      "https://docs.example.com/guides?lang=en",
+    );
+  });
+
+  it("should not resolve extra segments for links that did not opt in", async () => {
+    expect((await visit("/r/plain/anything")).status).toBe(404);
+    expect((await visit("/r/plain")).status).toBe(302);
+  });
+
+  it("should keep the forwarded path through a password prompt", async () => {
+    const prompt = await visit("/r/vault/reports/q3");
+    expect(await prompt.text()).toContain('action="/r/vault/reports/q3"');
+
+    const unlocked = await fetch(`${server.baseUrl}/r/vault/reports/q3`, {
+      method: "POST",
+      redirect: "manual",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "password=open+sesame",
+    });
+    expect(unlocked.status).toBe(303);
+    expect(unlocked.headers.get("location")).toBe(
+      "https://example.com/vault/reports/q3",
+    );
+  });
+});
+
+describe("template links on /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("jira", {
+        originalUrl: "https://tracker.example.com/issues/{1}",
+        template: true,
+      }),
+    );
+    server.repository.createLink(
+      makeRecord("search", {
+        originalUrl: "https://example.com/search?q={*}",
+        template: true,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual" });
+
+  it("should fill the template from the path", async () => {
+    expect((await visit("/r/jira/ABC-123")).headers.get("location")).toBe(
+      "https://tracker.example.com/issues/ABC-123",
+    );
+    expect(
+      (await visit("/r/search/hello%20world/x")).headers.get("location"),
+    ).toBe("https://example.com/search?q=hello%20world/x");
+  });
+
+  it("should explain which segments are missing without counting a click", async () => {
+    const page = await visit("/r/jira");
+    expect(page.status).toBe(400);
+    expect(await page.text()).toContain(
+      "This link needs a value after /r/jira/",
+    );
+
+    const api = await fetch(`${server.baseUrl}/api/redirect/jira`);
+    expect(api.status).toBe(400);
+    expect(await api.json()).toMatchObject({
+      code: "MISSING_PATH_SEGMENTS",
+      requiredSegments: 1,
+    });
+    expect(server.repository.findByShortcode("jira").totalClicks).toBe(1);
+  });
+});
+
+describe("link previews and interstitials", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("peek", { originalUrl: "https://example.com/a?b=<c>" }),
+    );
+    server.repository.createLink(
+      makeRecord("secret", { passwordHash: await hashPassword("open sesame") }),
+    );
+    server.repository.createLink(
+      makeRecord("careful", {
+        originalUrl: "https://downloads.example.com/setup.exe",
+        interstitial: true,
+        interstitialSeconds: 5,
+      }),
+    );
+    // As an imported backup could store it
+    server.repository.createLink(
+      makeRecord("evil", {
+        interstitial: true,
+        interstitialSeconds: "1;alert(document.cookie)//" as unknown as number,
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string, init: RequestInit = {}) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual", ...init });
+
+  it("should preview a link without counting a click", async () => {
+    const response = await visit("/p/peek");
+    expect(response.status).toBe(200);
+    const html = await response.text();
+    expect(html).toContain("example.com");
+    expect(html).toContain("https://example.com/a?b=&lt;c&gt;");
+    expect(html).toContain("Active");
+    expect(html).toContain('href="/r/peek"');
+    expect(server.repository.findByShortcode("peek").totalClicks).toBe(0);
+
+    expect((await visit("/p/missing")).status).toBe(404);
+  });
+
+  it("should not reveal where a password-protected link goes", async () => {
+    const html = await (await visit("/p/secret")).text();
+    expect(html).toContain("Hidden until the password is entered");
+    expect(html).not.toContain("https://example.com/secret");
+  });
+
+  it("should show the interstitial first and count the click on continue", async () => {
+    const page = await visit("/r/careful");
+    expect(page.status).toBe(200);
+    expect(page.headers.get("cache-control")).toBe("no-store");
+    const html = await page.text();
+    expect(html).toContain("downloads.example.com");
+    expect(html).toContain('<form method="post" action="/r/careful">');
+    expect(html).toContain('<span id="countdown">5</span>');
+    expect(server.repository.findByShortcode("careful").totalClicks).toBe(0);
+
+    const continued = await visit("/r/careful", { method: "POST" });
+    expect(continued.status).toBe(303);
+    expect(continued.headers.get("location")).toBe(
+      "https://downloads.example.com/setup.exe",
+    );
+    expect(server.repository.findByShortcode("careful").totalClicks).toBe(1);
+  });
+
+  it("should only ever write a number into the countdown script", async () => {
+    const html = await (await visit("/r/evil")).text();
+    expect(html).not.toContain("alert");
+    // Not a number, so no countdown at all
+    expect(html).not.toContain("<script>");
+    expect(html).toContain('<form method="post" action="/r/evil">');
+  });
+});
+
+describe("branded error pages", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({
+      ADMIN_TOKEN: "secret",
+      BRAND_NAME: "Acme Links",
+      BRAND_LOGO_URL: "https://cdn.example.com/logo.svg",
+      BRAND_PRIMARY_COLOR: "#ff6600",
+      BRAND_BACKGROUND_COLOR: "red;}body{display:none",
+      BRAND_SUPPORT_URL: "https://help.example.com",
+    });
+    server.repository.createLink(makeRecord("promo"));
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string) =>
+    fetch(`${server.baseUrl}${path}`, { redirect: "manual" });
+
+  const setDisabled = (disabled: unknown) =>
+    fetch(`${server.baseUrl}/api/admin/links/promo`, {
+      method: "PATCH",
+      headers: {
+        Authorization: "Bearer secret",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ disabled }),
+    });
+
+  it("should render the configured branding", async () => {
+    const response = await visit("/r/missing");
+    expect(response.status).toBe(404);
+    expect(response.headers.get("content-type")).toMatch(/text\/html/);
+    const html = await response.text();
+    expect(html).toContain("<title>Link Not Found - Acme Links</title>");
+    expect(html).toContain('src="https://cdn.example.com/logo.svg"');
+    expect(html).toContain("background: #ff6600");
+    expect(html).toContain('href="https://help.example.com"');
+    // Unsafe colors fall back to the default
+    expect(html).toContain("background: #f8fafc");
+    expect(html).not.toContain("display:none");
+  });
+
+  it("should answer disabled links with their own page until re-enabled", async () => {
+    expect((await setDisabled("yes")).status).toBe(400);
+    expect(await (await setDisabled(true)).json()).toEqual({
+      shortcode: "promo",
+      disabled: true,
+    });
+
+    const page = await visit("/r/promo");
+    expect(page.status).toBe(403);
+    expect(await page.text()).toContain("Link Disabled");
+    const api = await fetch(`${server.baseUrl}/api/redirect/promo`);
+    expect(await api.json()).toMatchObject({ code: "LINK_DISABLED" });
+    expect(server.repository.findByShortcode("promo").totalClicks).toBe(0);
+
+    await setDisabled(false);
+    expect((await visit("/r/promo")).status).toBe(302);
+  });
+});
+
+describe("bot traffic on /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+    server.repository.createLink(
+      makeRecord("once", {
+        originalUrl: "https://secret.example.com/doc",
+        maxClicks: 1,
+      }),
+    );
+    server.repository.createLink(makeRecord("open"));
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (init: RequestInit = {}, shortcode = "once") =>
+    fetch(`${server.baseUrl}/r/${shortcode}`, { redirect: "manual", ...init });
+
+  it("should redirect bots on unlimited links without counting clicks", async () => {
+    const response = await visit(
+      { headers: { "User-Agent": "curl/8.0" } },
+      "open",
+    );
+    expect(response.status).toBe(302);
+    expect(server.repository.findByShortcode("open")).toMatchObject({
+      totalClicks: 0,
+      botClicks: 1,
+    });
+  });
+
+  it("should never show bots where a click-limited link goes", async () => {
+    for (const userAgent of ["curl/8.0", "Slackbot-LinkExpanding 1.0"]) {
+      const response = await visit({ headers: { "User-Agent": userAgent } });
+      expect(response.status).toBe(200);
+      expect(response.headers.get("location")).toBeNull();
+      expect(await response.text()).not.toContain("secret.example.com");
+    }
+    const preview = await fetch(`${server.baseUrl}/p/once`);
+    expect(await preview.text()).not.toContain("secret.example.com");
+    const api = await fetch(`${server.baseUrl}/api/redirect/once`, {
+      headers: { "User-Agent": "curl/8.0" },
+    });
+    expect(api.status).toBe(403);
+    expect(JSON.stringify(await api.json())).not.toContain("secret");
+  });
+
+  it("should count bot visits without spending clicks", async () => {
+    expect((await visit({ method: "HEAD" })).status).toBe(200);
+    await visit({ headers: { "Sec-Purpose": "prefetch" } });
+
+    expect(server.repository.findByShortcode("once")).toMatchObject({
+      totalClicks: 0,
+      botClicks: 5,
+      botHits: { curl: 2, Slack: 1, "HEAD request": 1, Prefetch: 1 },
+      isExpired: false,
+    });
+  });
+
+  it("should still count the first human visit", async () => {
+    const human = await visit();
+    expect(human.status).toBe(302);
+    expect(human.headers.get("location")).toBe(
+      "https://secret.example.com/doc",
+    );
+    expect((await visit()).status).toBe(410);
+    expect(server.repository.findByShortcode("once")).toMatchObject({
+      totalClicks: 1,
+      expiredClicks: 1,
+      botClicks: 5,
+    });
+  });
+});
+
+describe("Open Graph cards on /r/:shortcode", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer({ BRAND_NAME: "Acme Links" });
+    server.repository.createLink(
+      makeRecord("sale", {
+        originalUrl: "https://shop.example.com/sale",
+        openGraph: {
+          title: "Spring <Sale>",
+          description: "Everything 20% off",
+          image: "https://cdn.example.com/sale.png",
+        },
+      }),
+    );
+    server.repository.createLink(makeRecord("plain"));
+    server.repository.createLink(
+      makeRecord("drop", {
+        originalUrl: "https://secret.example.com/drop",
+        maxClicks: 1,
+        openGraph: { title: "Limited drop" },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const visit = (path: string, userAgent?: string) =>
+    fetch(`${server.baseUrl}${path}`, {
+      redirect: "manual",
+      headers: userAgent ? { "User-Agent": userAgent } : {},
+    });
+
+  it("should serve the card to unfurlers", async () => {
+    const response = await visit(
+      "/r/sale",
+      "Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)",
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("vary")).toMatch(/User-Agent/);
+    const html = await response.text();
+    expect(html).toContain(
+      '<meta property="og:title" content="Spring &lt;Sale&gt;" />',
+    );
+    expect(html).toContain(
+      '<meta property="og:description" content="Everything 20% off" />',
+    );
+    expect(html).toContain(
+      '<meta property="og:image" content="https://cdn.example.com/sale.png" />',
+    );
+    expect(html).toContain(
+      '<meta name="twitter:card" content="summary_large_image" />',
+    );
+    expect(html).toContain(
+      '<meta property="og:site_name" content="Acme Links" />',
+    );
+    expect(server.repository.findByShortcode("sale")).toMatchObject({
+      totalClicks: 0,
+      botHits: { Slack: 1 },
+    });
+  });
+
+  it("should leave the destination out of cards for click-limited links", async () => {
+    const response = await visit("/r/drop", "Twitterbot/1.0");
+    expect(response.status).toBe(200);
+    const html = await response.text();
+    expect(html).toContain('content="Limited drop"');
+    expect(html).not.toContain("secret.example.com");
+  });
+
+  it("should keep redirecting browsers and other bots", async () => {
+    const browser = await visit("/r/sale");
+    expect(browser.status).toBe(302);
+    // Cached redirects must not be replayed to unfurlers
+    expect(browser.headers.get("vary")).toMatch(/User-Agent/);
+    expect(browser.headers.get("location")).toBe(
+      "https://shop.example.com/sale",
+    );
+    expect((await visit("/r/sale", "Googlebot/2.1")).status).toBe(302);
+    // Without overrides the unfurler reads the destination's own tags
+    expect((await visit("/r/plain", "Twitterbot/1.0")).status).toBe(302);
+  });
+});
@@ -0,0 +1,213 @@
+import { RequestHandler, Response } from "express";
+import { log } from "../lib/logger";
+import {
+  DEFAULT_BRANDING,
+  renderInterstitialPage,
+  renderOpenGraphPage,
+  renderUnlockPage,
+  sendErrorPage,
+} from "../lib/pages";
+import { LinkResolution, resolveLink } from "../lib/resolveLink";
+import { getCacheControl, getRedirectType } from "../lib/redirectPolicy";
+import { setStickyVariant } from "../lib/stickyVariants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Forms post back to the visitor's own URL so forwarded paths and query
+// strings survive; only ever a path on this server
+const postBackUrl = (res: Response, shortcode: string) =>
+  res.req.originalUrl.startsWith("/r/")
+    ? res.req.originalUrl
+    : `/r/${encodeURIComponent(shortcode)}`;
+
+const sendResolution = (
+  res: Response,
+  shortcode: string,
+  resolution: LinkResolution,
+  // Set for POST unlocks: a never-cached 303 so browsers GET the destination
+  unlocked = false,
+) => {
+  switch (resolution.outcome) {
+    case "redirect":
+      setStickyVariant(res, resolution.record, resolution.variant);
+      if (unlocked) {
+        res.set("Cache-Control", "no-store");
+        return res.redirect(303, resolution.destination);
+      }
+      res.set("Cache-Control", getCacheControl(resolution.record));
+      // Shared caches must not hand one platform's destination to another,
+      // or a browser's redirect to an unfurler that should get the card
+      if (
+        resolution.record.platformDestinations ||
+        resolution.record.openGraph
+      ) {
+        res.vary("User-Agent");
+      }
+      return res.redirect(
+        getRedirectType(resolution.record),
+        resolution.destination,
+      );
+    case "interstitial":
+      setStickyVariant(res, resolution.record, resolution.variant);
+      return res
+        .set("Cache-Control", "no-store")
+        .type("html")
+        .send(
+          renderInterstitialPage({
+            destination: resolution.destination,
+            createdAt: resolution.record.createdAt,
+            expiryTime: resolution.record.expiryTime,
+            action: postBackUrl(res, shortcode),
+            autoContinueSeconds: resolution.record.interstitialSeconds,
+          }),
+        );
+    case "unfurl":
+      // Varies by User-Agent so caches never give people the card
+      return res
+        .set("Cache-Control", "no-store")
+        .vary("User-Agent")
+        .type("html")
+        .send(
+          renderOpenGraphPage({
+            openGraph: resolution.record.openGraph!,
+            shortUrl: resolution.record.shortenedUrl,
+            destination:
+              resolution.record.maxClicks === undefined
+                ? resolution.destination
+                : undefined,
+            siteName: (res.app.locals.config?.branding ?? DEFAULT_BRANDING)
+              .name,
+          }),
+        );
+    case "expired":
+    case "click_limit_reached":
+      if (resolution.fallbackUrl) {
+        res.set("Cache-Control", "no-store");
+        return res.redirect(302, resolution.fallbackUrl);
+      }
+      return sendErrorPage(
+        res,
+        410,
+        resolution.outcome === "expired"
+          ? {
+              title: "Link Expired",
+              message: "This short link has expired and no longer redirects.",
+            }
+          : {
+              title: "Link No Longer Available",
+              message:
+                "This short link has reached its click limit and no longer redirects.",
+            },
+      );
+    case "bot_withheld":
+      // 200 so link unfurlers show a plain card rather than an error
+      res.set("Cache-Control", "no-store");
+      return sendErrorPage(res, 200, {
+        title: "Open This Link in Your Browser",
+        message:
+          "This short link can only be opened a limited number of times, so it does not redirect automated clients.",
+      });
+    case "not_found":
+      return sendErrorPage(res, 404, {
+        title: "Link Not Found",
+        message: "This short link does not exist.",
+      });
+    case "disabled":
+      res.set("Cache-Control", "no-store");
+      return sendErrorPage(res, 403, {
+        title: "Link Disabled",
+        message: "This short link has been disabled by its owner.",
+      });
+    case "not_yet_active": {
+      const { activeFrom } = resolution.record;
+      res
+        .set("Cache-Control", "no-store")
+        .set("Retry-After", String(Math.ceil(resolution.retryAfterMs / 1000)));
+      return sendErrorPage(res, 403, {
+        title: "Link Not Active Yet",
+        message: `This short link opens on ${new Date(activeFrom).toUTCString()}.`,
+        // The SPA shows a live countdown; the refresh covers visitors without JavaScript
+        links: [
+          {
+            href: `/upcoming/${encodeURIComponent(shortcode)}?activeFrom=${encodeURIComponent(activeFrom)}`,
+            label: "Watch the Countdown",
+          },
+        ],
+        refreshAfterSeconds:
+          resolution.retryAfterMs <= DAY_MS
+            ? resolution.retryAfterMs / 1000
+            : undefined,
+      });
+    }
+    case "password_required":
+    case "invalid_password":
+      return res
+        .status(401)
+        .set("Cache-Control", "no-store")
+        .type("html")
+        .send(
+          renderUnlockPage({
+            shortcode,
+            action: postBackUrl(res, shortcode),
+            error:
+              resolution.outcome === "invalid_password"
+                ? resolution.error
+                : undefined,
+          }),
+        );
+    case "missing_segments":
+      return sendErrorPage(res, 400, {
+        title: "Incomplete Link",
+        message: resolution.error,
+      });
+    case "too_many_attempts":
+      res.set("Retry-After", String(Math.ceil(resolution.retryAfterMs / 1000)));
+      return sendErrorPage(res, 429, {
+        title: "Too Many Attempts",
+        message:
+          "Too many incorrect passwords were entered. Please try again later.",
+      });
+  }
+};
+
+const sendServerError = (res: Response) =>
+  sendErrorPage(res, 500, {
+    title: "Something Went Wrong",
+    message: "We could not process this link. Please try again later.",
+  });
+
+// Server-side redirect for /r/:shortcode so links work without JavaScript
+export const handleShortLink: RequestHandler = async (req, res) => {
+  try {
+    const { shortcode } = req.params;
+    sendResolution(
+      res,
+      shortcode,
+      await resolveLink(req, shortcode, {
+        showInterstitial: true,
+        unfurl: true,
+      }),
+    );
+  } catch (error) {
+    log("REDIRECT_ERROR", req, { error: error.message });
+    sendServerError(res);
+  }
+};
+
+// Form submission from the password prompt or the interstitial's button
+export const handleShortLinkUnlock: RequestHandler = async (req, res) => {
+  try {
+    const { shortcode } = req.params;
+    const password =
+      typeof req.body?.password === "string" ? req.body.password : "";
+    sendResolution(
+      res,
+      shortcode,
+      await resolveLink(req, shortcode, { password }),
+      true,
+    );
+  } catch (error) {
+    log("REDIRECT_ERROR", req, { error: error.message });
+    sendServerError(res);
+  }
+};
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { startTestServer, TestServer } from "../test-utils";
+
+describe("URL shortener routes", () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const shorten = (body: Record<string, unknown>) =>
+    fetch(`${server.baseUrl}/api/shorten`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("should store shortened links in the configured repository", async () => {
+    const response = await shorten({
+      originalUrl: "https://example.com/page",
+      validityMinutes: 10,
+      customShortcode: "page1",
+    });
+    expect(response.status).toBe(200);
+    expect(server.repository.findByShortcode("page1")?.originalUrl).toBe(
+      "https://example.com/page",
+    );
+  });
+
+  it("should reject duplicate shortcodes", async () => {
+    const response = await shorten({
+      originalUrl: "https://example.com/other",
+      validityMinutes: 10,
+      customShortcode: "page1",
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should validate redirect type and cache policy", async () => {
+    const badType = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      redirectType: 303,
+    });
+    expect(badType.status).toBe(400);
+
+    const badPolicy = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      cachePolicy: "forever",
+    });
+    expect(badPolicy.status).toBe(400);
+
+    const ok = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      customShortcode: "cached",
+      redirectType: 308,
+      cachePolicy: "private",
+      cacheMaxAgeSeconds: 60,
+    });
+    expect(ok.status).toBe(200);
+    expect(server.repository.findByShortcode("cached")).toMatchObject({
+      redirectType: 308,
+      cachePolicy: "private",
+      cacheMaxAgeSeconds: 60,
+    });
+  });
+
+  it("should reject caching that would bypass limits or targeting", async () => {
+    const limited = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      maxClicks: 1,
+      redirectType: 301,
+    });
+    expect(limited.status).toBe(400);
+    expect((await limited.json()).error).toMatch(/temporary redirect/);
+
+    const scheduled = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      activeFrom: new Date(Date.now() + 60_000).toISOString(),
+      cachePolicy: "private",
+    });
+    expect(scheduled.status).toBe(400);
+
+    const split = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      variants: [
+        { url: "https://example.com/a", weight: 1 },
+        { url: "https://example.com/b", weight: 1 },
+      ],
+      cachePolicy: "public",
+    });
+    expect(split.status).toBe(400);
+    expect((await split.json()).error).toMatch(/public caching/);
+  });
+
+  it("should reject invalid click limits", async () => {
+    const bad = await shorten({
+      originalUrl: "https://example.com/a",
+      validityMinutes: 10,
+      maxClicks: 0,
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it("should schedule links between a start and end time", async () => {
+    const start = new Date(Date.now() + 60 * 60_000);
+    const counted = await shorten({
+      originalUrl: "https://example.com/launch",
+      validityMinutes: 30,
+      activeFrom: start.toISOString(),
+      customShortcode: "launch",
+    });
+    expect(await counted.json()).toMatchObject({
+      activeFrom: start.toISOString(),
+      expiryTime: new Date(start.getTime() + 30 * 60_000).toISOString(),
+    });
+
+    const end = new Date(start.getTime() + 90 * 60_000);
+    const bounded = await shorten({
+      originalUrl: "https://example.com/launch",
+      activeFrom: start.toISOString(),
+      expiryTime: end.toISOString(),
+      customShortcode: "window",
+    });
+    expect(bounded.status).toBe(200);
+    expect(server.repository.findByShortcode("window")).toMatchObject({
+      expiryTime: end.toISOString(),
+      validityMinutes: 90,
+    });
+
+    const backwards = await shorten({
+      originalUrl: "https://example.com/launch",
+      activeFrom: start.toISOString(),
+      expiryTime: new Date(start.getTime() - 60_000).toISOString(),
+    });
+    expect(backwards.status).toBe(400);
+
+    const invalid = await shorten({
+      originalUrl: "https://example.com/launch",
+      validityMinutes: 30,
+      activeFrom: "next tuesday",
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should validate platform destinations", async () => {
+    const unsafe = await shorten({
+      originalUrl: "https://example.com/app",
+      validityMinutes: 10,
+      platformDestinations: { ios: "javascript:alert(1)" },
+    });
+    expect(unsafe.status).toBe(400);
+
+    const unknown = await shorten({
+      originalUrl: "https://example.com/app",
+      validityMinutes: 10,
+      platformDestinations: { blackberry: "https://example.com/bb" },
+    });
+    expect(unknown.status).toBe(400);
+  });
+
+  it("should validate country destinations", async () => {
+    const bad = await shorten({
+      originalUrl: "https://example.com/shop",
+      validityMinutes: 10,
+      countryDestinations: { Germany: "https://example.de" },
+    });
+    expect(bad.status).toBe(400);
+
+    const ok = await shorten({
+      originalUrl: "https://example.com/shop",
+      validityMinutes: 10,
+      customShortcode: "shop",
+      countryDestinations: { de: "https://example.de" },
+    });
+    expect(ok.status).toBe(200);
+    expect(
+      server.repository.findByShortcode("shop").countryDestinations,
+    ).toEqual({ DE: "https://example.de" });
+  });
+
+  it("should validate A/B variants and label them in order", async () => {
+    const bad = await shorten({
+      originalUrl: "https://example.com/landing",
+      validityMinutes: 10,
+      variants: [{ url: "https://example.com/a", weight: 1 }],
+    });
+    expect(bad.status).toBe(400);
+
+    const ok = await shorten({
+      originalUrl: "https://example.com/landing",
+      validityMinutes: 10,
+      customShortcode: "landing",
+      variants: [
+        { url: "https://example.com/a", weight: 70 },
+        { url: "https://example.com/b", weight: 30 },
+      ],
+    });
+    expect(ok.status).toBe(200);
+    expect(server.repository.findByShortcode("landing")).toMatchObject({
+      variants: [
+        { id: "A", url: "https://example.com/a", weight: 70 },
+        { id: "B", url: "https://example.com/b", weight: 30 },
+      ],
+      stickyVariants: false,
+    });
+  });
+
+  it("should validate template links", async () => {
+    const noPlaceholder = await shorten({
+      originalUrl: "https://tracker.example.com/issues/",
+      validityMinutes: 10,
+      template: true,
+    });
+    expect(noPlaceholder.status).toBe(400);
+
+    const unknown = await shorten({
+      originalUrl: "https://tracker.example.com/issues/{issue}",
+      validityMinutes: 10,
+      template: true,
+    });
+    expect((await unknown.json()).error).toMatch(/Unknown placeholder/);
+
+    const ok = await shorten({
+      originalUrl: "https://tracker.example.com/issues/{1}",
+      validityMinutes: 10,
+      customShortcode: "jira",
+      template: true,
+    });
+    expect(ok.status).toBe(200);
+    expect(server.repository.findByShortcode("jira").template).toBe(true);
+  });
+
+  it("should reject out-of-range interstitial timers", async () => {
+    const response = await shorten({
+      originalUrl: "https://example.com/page",
+      validityMinutes: 10,
+      interstitial: true,
+      interstitialSeconds: 600,
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/from 1 to 60/);
+  });
+
+  it("should validate Open Graph overrides", async () => {
+    const badImage = await shorten({
+      originalUrl: "https://example.com/page",
+      validityMinutes: 10,
+      openGraph: { title: "Launch", image: "javascript:alert(1)" },
+    });
+    expect(badImage.status).toBe(400);
+    expect((await badImage.json()).error).toMatch(/http\(s\) URL/);
+
+    const unknown = await shorten({
+      originalUrl: "https://example.com/page",
+      validityMinutes: 10,
+      openGraph: { video: "https://example.com/v.mp4" },
+    });
+    expect((await unknown.json()).error).toMatch(/Unknown Open Graph field/);
+  });
+
+  it("should record clicks through the repository on redirect", async () => {
+    const response = await fetch(`${server.baseUrl}/api/redirect/page1`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      originalUrl: "https://example.com/page",
+      success: true,
+      redirectType: 302,
+      cacheControl: "no-store",
+    });
+    expect(server.repository.findByShortcode("page1")?.totalClicks).toBe(1);
+  });
+
+  it("should report statistics and logs from the repository", async () => {
+    const stats = await (
+      await fetch(`${server.baseUrl}/api/statistics`)
+    ).json();
+    expect(stats.totalUrls).toBe(7);
+    expect(stats.totalClicks).toBe(1);
+
+    // Counters and recent clicks only, never raw clicks or rollup buckets
+    const page = stats.urls.find((url) => url.shortcode === "page1");
+    expect(page).not.toHaveProperty("clicks");
+    expect(page).not.toHaveProperty("rollups");
+    expect(page.breakdown).toMatchObject({
+      total: 1,
+      bySource: { Direct: 1 },
+    });
+    expect(page.recentClicks).toEqual([
+      expect.objectContaining({ source: "Direct" }),
+    ]);
+    expect(page.recentClicks[0]).not.toHaveProperty("ip");
+    expect(page.recentClicks[0]).not.toHaveProperty("userAgent");
+
+    const logs = await (
+      await fetch(`${server.baseUrl}/api/logs?limit=1`)
+    ).json();
+    expect(logs.logs).toHaveLength(1);
+    expect(logs.total).toBe(server.repository.countLogs());
+  });
+
+  it("should protect links with a hashed password", async () => {
+    const tooShort = await shorten({
+      originalUrl: "https://example.com/secret",
+      validityMinutes: 10,
+      password: "abc",
+    });
+    expect(tooShort.status).toBe(400);
+
+    const created = await shorten({
+      originalUrl: "https://example.com/secret",
+      validityMinutes: 10,
+      customShortcode: "secret",
+      password: "open sesame",
+    });
+    expect(created.status).toBe(200);
+    expect(server.repository.findByShortcode("secret").passwordHash).toMatch(
+      /^scrypt\$/,
+    );
+
+    const locked = await fetch(`${server.baseUrl}/api/redirect/secret`);
+    expect(locked.status).toBe(401);
+    expect(await locked.json()).toMatchObject({ code: "PASSWORD_REQUIRED" });
+
+    const unlock = (password: string) =>
+      fetch(`${server.baseUrl}/api/redirect/secret/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+    const wrong = await unlock("nope");
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toMatchObject({ code: "INVALID_PASSWORD" });
+    expect(server.repository.findByShortcode("secret").totalClicks).toBe(0);
+
+    const right = await unlock("open sesame");
+    expect(right.status).toBe(200);
+    expect((await right.json()).originalUrl).toBe("https://example.com/secret");
+    expect(server.repository.findByShortcode("secret").totalClicks).toBe(1);
+
+    const stats = await (
+      await fetch(`${server.baseUrl}/api/statistics`)
+    ).json();
+    const listed = stats.urls.find((url) => url.shortcode === "secret");
+    expect(listed.passwordProtected).toBe(true);
+    expect(listed).not.toHaveProperty("passwordHash");
+    expect(listed).not.toHaveProperty("originalUrl");
+  });
+
+  it("should keep protected destinations out of statistics and logs", async () => {
+    const created = await shorten({
+      originalUrl: "https://hidden.example.com/once",
+      validityMinutes: 10,
+      customShortcode: "once",
+      maxClicks: 1,
+      platformDestinations: { ios: "https://hidden.example.com/ios" },
+      expiredRedirectUrl: "https://hidden.example.com/gone",
+    });
+    expect(created.status).toBe(200);
+    expect((await fetch(`${server.baseUrl}/api/redirect/once`)).status).toBe(
+      200,
+    );
+
+    const stats = await (
+      await fetch(`${server.baseUrl}/api/statistics`)
+    ).json();
+    const listed = stats.urls.find((url) => url.shortcode === "once");
+    expect(listed).toMatchObject({ maxClicks: 1, totalClicks: 1 });
+
+    const logs = await (
+      await fetch(`${server.baseUrl}/api/logs?limit=1000`)
+    ).json();
+    expect(JSON.stringify(stats)).not.toMatch(/hidden\.example\.com/);
+    expect(JSON.stringify(logs)).not.toMatch(/hidden\.example\.com/);
+    expect(JSON.stringify(logs)).not.toMatch(/example\.com\/secret/);
+  });
+});
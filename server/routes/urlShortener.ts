@@ -1,22 +1,18 @@
-import { RequestHandler } from "express";
-import { ShortenUrlRequest, ShortenUrlResponse, StatisticsResponse, RedirectResponse, ErrorResponse, UrlRecord, ClickData, LogEntry } from "@shared/api";
-
-// In-memory storage (in production, use a proper database)
-let urlDatabase: UrlRecord[] = [];
-let logs: LogEntry[] = [];
-
-// Custom logger middleware
-const log = (action: string, req: any, details?: Record<string, any>) => {
-  const logEntry: LogEntry = {
-    timestamp: new Date().toISOString(),
-    action,
-    ip: req.ip || req.connection.remoteAddress || 'unknown',
-    userAgent: req.get('User-Agent') || 'unknown',
-    details: details || {}
-  };
-  logs.push(logEntry);
-  console.log(`[URL_SHORTENER] ${action}:`, logEntry);
-};
+import { randomUUID } from "crypto";
+import { RequestHandler, Response } from "express";
+import { ShortenUrlRequest, ShortenUrlResponse, StatisticsResponse, LinkStatistics, RedirectResponse, ErrorResponse, CountryDestinations, PlatformDestinations, UnlockRequest, UrlRecord } from "@shared/api";
+import { getRepository } from "../storage";
+import { log } from "../lib/logger";
+import { hashPassword } from "../lib/password";
+import { LinkResolution, hidesDestination, resolveLink } from "../lib/resolveLink";
+import { normalizeVariants, validateCountryDestinations, validatePlatformDestinations, validateVariants } from "../lib/targeting";
+import { setStickyVariant } from "../lib/stickyVariants";
+import { normalizeUtm, validateUtm } from "../lib/queryParams";
+import { validateTemplate } from "../lib/templates";
+import { normalizeOpenGraph, validateOpenGraph } from "../lib/openGraph";
+import { summarizeRollups } from "../lib/rollups";
+import { MAX_INTERSTITIAL_SECONDS, MIN_INTERSTITIAL_SECONDS, isValidInterstitialSeconds } from "../lib/pages";
+import { CACHE_POLICIES, DEFAULT_CACHE_POLICY, DEFAULT_REDIRECT_TYPE, REDIRECT_TYPES, getCacheControl, getRedirectType, validateRedirectPolicy } from "../lib/redirectPolicy";
 
 // Generate random shortcode
 const generateShortcode = (length: number = 6): string => {
@@ -43,24 +39,79 @@ const isValidShortcode = (shortcode: string): boolean => {
   return /^[a-zA-Z0-9]+$/.test(shortcode);
 };
 
-// Check if shortcode already exists
-const shortcodeExists = (shortcode: string): boolean => {
-  return urlDatabase.some(record => record.shortcode === shortcode);
+// Passwords are only hashed, but keep them within sane bounds
+const isValidPassword = (password: unknown): password is string => {
+  return typeof password === 'string' && password.length >= 4 && password.length <= 128;
+};
+
+// Drops blank entries; undefined when no platform is targeted
+const compactDestinations = (destinations?: PlatformDestinations): PlatformDestinations | undefined => {
+  const entries = Object.entries(destinations ?? {}).filter(([, url]) => url);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
 };
 
-// Get coarse location from IP (simplified)
-const getLocationFromIP = (ip: string): string => {
-  // In production, use a proper IP geolocation service
-  if (ip.includes('127.0.0.1') || ip.includes('localhost')) return 'Local';
-  return 'Unknown Location';
+// Country codes are matched upper case
+const normalizeCountries = (destinations?: CountryDestinations): CountryDestinations | undefined => {
+  const entries = Object.entries(destinations ?? {});
+  return entries.length > 0
+    ? Object.fromEntries(entries.map(([country, url]) => [country.toUpperCase(), url]))
+    : undefined;
+};
+
+// Clicks listed per link on the statistics page
+const RECENT_CLICKS = 5;
+
+// Counters and a few recent clicks instead of the raw clicks (with IPs and
+// user agents) and every rollup bucket. Protected links also leave out
+// every URL they can send visitors to.
+const toLinkStatistics = ({ passwordHash, clicks, rollups, ...record }: UrlRecord): LinkStatistics => {
+  const hidden = hidesDestination({ passwordHash, maxClicks: record.maxClicks });
+  const { originalUrl, expiredRedirectUrl, platformDestinations, countryDestinations, variants, health, ...rest } = record;
+  return {
+    ...(hidden
+      ? { ...rest, health: health && { ...health, finalUrl: undefined } }
+      : record),
+    passwordProtected: Boolean(passwordHash),
+    breakdown: summarizeRollups(rollups),
+    recentClicks: clicks.slice(-RECENT_CLICKS).reverse().map(({ timestamp, source, location, platform, os, variant }) => ({
+      timestamp, source, location, platform, os, variant
+    }))
+  };
 };
 
 // Shorten URL endpoint
-export const shortenUrl: RequestHandler = (req, res) => {
+export const shortenUrl: RequestHandler = async (req, res) => {
   try {
-    const { originalUrl, validityMinutes, customShortcode }: ShortenUrlRequest = req.body;
-
-    log('URL_SHORTEN_ATTEMPT', req, { originalUrl, validityMinutes, customShortcode });
+    const {
+      originalUrl,
+      validityMinutes,
+      activeFrom,
+      expiryTime: requestedExpiry,
+      customShortcode,
+      redirectType = DEFAULT_REDIRECT_TYPE,
+      cachePolicy = DEFAULT_CACHE_POLICY,
+      cacheMaxAgeSeconds,
+      password,
+      maxClicks,
+      expiredRedirectUrl,
+      platformDestinations,
+      countryDestinations,
+      variants,
+      stickyVariants,
+      forwardQuery,
+      forwardPath,
+      template,
+      interstitial,
+      interstitialSeconds,
+      utm,
+      openGraph
+    }: ShortenUrlRequest = req.body;
+    const repository = getRepository(req);
+
+    // Protected links' destinations stay out of the logs
+    const hidden = hidesDestination({ passwordHash: password, maxClicks });
+    const destinations = hidden ? {} : { originalUrl, expiredRedirectUrl, platformDestinations, countryDestinations, variants };
+    log('URL_SHORTEN_ATTEMPT', req, { ...destinations, validityMinutes, activeFrom, expiryTime: requestedExpiry, customShortcode, redirectType, cachePolicy, maxClicks, forwardQuery, forwardPath, template, interstitial, interstitialSeconds, utm, openGraph, passwordProtected: Boolean(password) });
 
     // Validate required fields
     if (!originalUrl) {
@@ -70,19 +121,138 @@ export const shortenUrl: RequestHandler = (req, res) => {
     }
 
     // Validate URL format
-    if (!isValidUrl(originalUrl)) {
+    if (!template && !isValidUrl(originalUrl)) {
       const error: ErrorResponse = { error: 'Invalid URL format' };
       log('URL_SHORTEN_ERROR', req, { error: error.error });
       return res.status(400).json(error);
     }
 
-    // Validate validity minutes
-    if (!validityMinutes || validityMinutes <= 0 || !Number.isInteger(validityMinutes)) {
+    // Template links take their segments from the path instead of appending it
+    const templateError = template
+      ? (forwardPath ? 'Template links cannot also forward paths' : validateTemplate(originalUrl))
+      : undefined;
+    if (templateError) {
+      const error: ErrorResponse = { error: templateError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (expiredRedirectUrl && !isValidUrl(expiredRedirectUrl)) {
+      const error: ErrorResponse = { error: 'Invalid expired redirect URL format' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const platformError = validatePlatformDestinations(platformDestinations);
+    if (platformError) {
+      const error: ErrorResponse = { error: platformError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const countryError = validateCountryDestinations(countryDestinations);
+    if (countryError) {
+      const error: ErrorResponse = { error: countryError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const variantError = validateVariants(variants);
+    if (variantError) {
+      const error: ErrorResponse = { error: variantError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const utmError = validateUtm(utm);
+    if (utmError) {
+      const error: ErrorResponse = { error: utmError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const openGraphError = validateOpenGraph(openGraph);
+    if (openGraphError) {
+      const error: ErrorResponse = { error: openGraphError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    // Validate activation window
+    const startDate = activeFrom ? new Date(activeFrom) : undefined;
+    if (startDate && isNaN(startDate.getTime())) {
+      const error: ErrorResponse = { error: 'Active from must be a valid date' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const endDate = requestedExpiry ? new Date(requestedExpiry) : undefined;
+    if (endDate && isNaN(endDate.getTime())) {
+      const error: ErrorResponse = { error: 'Expiry time must be a valid date' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (endDate && (endDate <= new Date() || (startDate && endDate <= startDate))) {
+      const error: ErrorResponse = { error: 'Expiry time must be in the future and after the start time' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    // Validate validity minutes (an explicit expiry time replaces them)
+    if (!endDate && (!validityMinutes || validityMinutes <= 0 || !Number.isInteger(validityMinutes))) {
       const error: ErrorResponse = { error: 'Validity must be a positive integer' };
       log('URL_SHORTEN_ERROR', req, { error: error.error });
       return res.status(400).json(error);
     }
 
+    // Validate redirect type and cache policy
+    if (!REDIRECT_TYPES.includes(redirectType)) {
+      const error: ErrorResponse = { error: `Redirect type must be one of ${REDIRECT_TYPES.join(', ')}` };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (!CACHE_POLICIES.includes(cachePolicy)) {
+      const error: ErrorResponse = { error: `Cache policy must be one of ${CACHE_POLICIES.join(', ')}` };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (cacheMaxAgeSeconds !== undefined && (!Number.isInteger(cacheMaxAgeSeconds) || cacheMaxAgeSeconds < 0)) {
+      const error: ErrorResponse = { error: 'Cache max-age must be a non-negative integer' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (maxClicks !== undefined && (!Number.isInteger(maxClicks) || maxClicks <= 0)) {
+      const error: ErrorResponse = { error: 'Max clicks must be a positive integer' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    const policyError = validateRedirectPolicy({ redirectType, cachePolicy, maxClicks, activeFrom, countryDestinations, variants });
+    if (policyError) {
+      const error: ErrorResponse = { error: policyError };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (interstitialSeconds !== undefined && !isValidInterstitialSeconds(interstitialSeconds)) {
+      const error: ErrorResponse = { error: `Interstitial seconds must be a whole number from ${MIN_INTERSTITIAL_SECONDS} to ${MAX_INTERSTITIAL_SECONDS}` };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    if (password !== undefined && password !== '' && !isValidPassword(password)) {
+      const error: ErrorResponse = { error: 'Password must be between 4 and 128 characters' };
+      log('URL_SHORTEN_ERROR', req, { error: error.error });
+      return res.status(400).json(error);
+    }
+
+    // Hashed before the shortcode is claimed, which must not yield to other requests
+    const passwordHash = password ? await hashPassword(password) : undefined;
+
     // Generate or validate shortcode
     let shortcode = customShortcode;
     if (shortcode) {
@@ -94,7 +264,7 @@ export const shortenUrl: RequestHandler = (req, res) => {
       }
       
       // Check uniqueness
-      if (shortcodeExists(shortcode)) {
+      if (repository.shortcodeExists(shortcode)) {
         const error: ErrorResponse = { error: 'Shortcode already exists' };
         log('URL_SHORTEN_ERROR', req, { error: error.error });
         return res.status(400).json(error);
@@ -103,39 +273,60 @@ export const shortenUrl: RequestHandler = (req, res) => {
       // Generate unique shortcode
       do {
         shortcode = generateShortcode();
-      } while (shortcodeExists(shortcode));
+      } while (repository.shortcodeExists(shortcode));
     }
 
-    // Calculate expiry time
-    const expiryTime = new Date(Date.now() + validityMinutes * 60 * 1000);
+    // Calculate expiry time; validity counts from the start of the window
     const createdAt = new Date();
+    const startsAt = startDate ?? createdAt;
+    const expiryTime = endDate ?? new Date(startsAt.getTime() + validityMinutes * 60 * 1000);
 
     // Create URL record
     const urlRecord: UrlRecord = {
-      id: Date.now().toString(),
+      id: randomUUID(),
       originalUrl,
       shortcode,
       shortenedUrl: `${req.protocol}://${req.get('host')}/r/${shortcode}`,
       createdAt: createdAt.toISOString(),
+      activeFrom: startDate?.toISOString(),
       expiryTime: expiryTime.toISOString(),
-      validityMinutes,
+      validityMinutes: endDate ? Math.ceil((endDate.getTime() - startsAt.getTime()) / 60000) : validityMinutes,
       totalClicks: 0,
       clicks: [],
-      isExpired: false
+      isExpired: false,
+      maxClicks,
+      expiredRedirectUrl: expiredRedirectUrl || undefined,
+      platformDestinations: compactDestinations(platformDestinations),
+      countryDestinations: normalizeCountries(countryDestinations),
+      variants: normalizeVariants(variants),
+      stickyVariants: variants ? Boolean(stickyVariants) : undefined,
+      forwardQuery: forwardQuery || undefined,
+      forwardPath: forwardPath || undefined,
+      template: template || undefined,
+      interstitial: interstitial || undefined,
+      interstitialSeconds: interstitial ? interstitialSeconds : undefined,
+      utm: normalizeUtm(utm),
+      openGraph: normalizeOpenGraph(openGraph),
+      passwordHash,
+      redirectType,
+      cachePolicy,
+      cacheMaxAgeSeconds: cachePolicy === 'no-store' ? undefined : cacheMaxAgeSeconds
     };
 
     // Store in database
-    urlDatabase.push(urlRecord);
+    repository.createLink(urlRecord);
 
     log('URL_SHORTENED_SUCCESS', req, { 
       shortcode, 
-      originalUrl, 
+      originalUrl: hidden ? undefined : originalUrl, 
+      activeFrom: urlRecord.activeFrom,
       expiryTime: expiryTime.toISOString() 
     });
 
     const response: ShortenUrlResponse = {
       shortenedUrl: urlRecord.shortenedUrl,
       shortcode: urlRecord.shortcode,
+      activeFrom: urlRecord.activeFrom,
       expiryTime: urlRecord.expiryTime,
       originalUrl: urlRecord.originalUrl
     };
@@ -148,63 +339,78 @@ export const shortenUrl: RequestHandler = (req, res) => {
   }
 };
 
+// Shared by the redirect and unlock endpoints
+const sendResolution = (res: Response, resolution: LinkResolution) => {
+  if ((resolution.outcome === 'expired' || resolution.outcome === 'click_limit_reached') && resolution.fallbackUrl) {
+    const response: RedirectResponse = {
+      originalUrl: resolution.fallbackUrl,
+      success: true,
+      expired: true,
+      redirectType: 302,
+      cacheControl: 'no-store'
+    };
+    return res.json(response);
+  }
+
+  // API callers never ask for interstitials or cards, so these all mean a redirect
+  if (resolution.outcome !== 'redirect' && resolution.outcome !== 'interstitial' && resolution.outcome !== 'unfurl') {
+    if (resolution.outcome === 'too_many_attempts') {
+      res.set('Retry-After', String(Math.ceil(resolution.retryAfterMs / 1000)));
+    }
+    const error: ErrorResponse = { error: resolution.error, code: resolution.code };
+    if (resolution.outcome === 'not_yet_active') {
+      res.set('Retry-After', String(Math.ceil(resolution.retryAfterMs / 1000)));
+      error.activeFrom = resolution.record.activeFrom;
+    }
+    if (resolution.outcome === 'missing_segments') {
+      error.requiredSegments = resolution.requiredSegments;
+    }
+    return res.status(resolution.status).json(error);
+  }
+
+  setStickyVariant(res, resolution.record, resolution.variant);
+
+  const response: RedirectResponse = {
+    originalUrl: resolution.destination,
+    success: true,
+    variant: resolution.variant,
+    redirectType: getRedirectType(resolution.record),
+    cacheControl: getCacheControl(resolution.record)
+  };
+
+  res.json(response);
+};
+
 // Redirect endpoint
-export const redirectUrl: RequestHandler = (req, res) => {
+export const redirectUrl: RequestHandler = async (req, res) => {
   try {
     const { shortcode } = req.params;
 
-    log('REDIRECT_ATTEMPT', req, { shortcode });
-
     if (!shortcode) {
       const error: ErrorResponse = { error: 'Shortcode is required' };
       log('REDIRECT_ERROR', req, { error: error.error });
       return res.status(400).json(error);
     }
 
-    // Find URL record
-    const urlRecord = urlDatabase.find(record => record.shortcode === shortcode);
+    sendResolution(res, await resolveLink(req, shortcode));
+  } catch (error) {
+    log('REDIRECT_ERROR', req, { error: error.message });
+    const errorResponse: ErrorResponse = { error: 'Internal server error' };
+    res.status(500).json(errorResponse);
+  }
+};
 
-    if (!urlRecord) {
-      const error: ErrorResponse = { error: 'Shortened URL not found' };
-      log('REDIRECT_ERROR', req, { error: error.error, shortcode });
-      return res.status(404).json(error);
-    }
+// Unlock endpoint for password-protected links
+export const unlockUrl: RequestHandler = async (req, res) => {
+  try {
+    const { password }: UnlockRequest = req.body ?? {};
 
-    // Check if expired
-    const now = new Date();
-    const expiryTime = new Date(urlRecord.expiryTime);
-    
-    if (now > expiryTime) {
-      urlRecord.isExpired = true;
-      const error: ErrorResponse = { error: 'Shortened URL has expired' };
-      log('REDIRECT_ERROR', req, { error: error.error, shortcode });
-      return res.status(410).json(error);
+    if (typeof password !== 'string' || !password) {
+      const error: ErrorResponse = { error: 'Password is required', code: 'PASSWORD_REQUIRED' };
+      return res.status(400).json(error);
     }
 
-    // Record click
-    const clickData: ClickData = {
-      timestamp: new Date().toISOString(),
-      source: req.get('Referer') || 'Direct',
-      location: getLocationFromIP(req.ip || 'unknown'),
-      userAgent: req.get('User-Agent') || 'unknown',
-      ip: req.ip || 'unknown'
-    };
-
-    urlRecord.clicks.push(clickData);
-    urlRecord.totalClicks++;
-
-    log('REDIRECT_SUCCESS', req, { 
-      shortcode, 
-      originalUrl: urlRecord.originalUrl,
-      totalClicks: urlRecord.totalClicks 
-    });
-
-    const response: RedirectResponse = {
-      originalUrl: urlRecord.originalUrl,
-      success: true
-    };
-
-    res.json(response);
+    sendResolution(res, await resolveLink(req, req.params.shortcode, { password }));
   } catch (error) {
     log('REDIRECT_ERROR', req, { error: error.message });
     const errorResponse: ErrorResponse = { error: 'Internal server error' };
@@ -215,22 +421,25 @@ export const redirectUrl: RequestHandler = (req, res) => {
 // Statistics endpoint
 export const getStatistics: RequestHandler = (req, res) => {
   try {
+    const repository = getRepository(req);
+
     log('STATISTICS_REQUEST', req);
 
     // Update expired status for all URLs
     const now = new Date();
-    urlDatabase.forEach(record => {
-      if (new Date(record.expiryTime) < now) {
-        record.isExpired = true;
+    const records = repository.listLinks().map(record => {
+      if (!record.isExpired && new Date(record.expiryTime) < now) {
+        return repository.updateLink(record.shortcode, { isExpired: true }) ?? record;
       }
+      return record;
     });
 
-    const totalUrls = urlDatabase.length;
-    const totalClicks = urlDatabase.reduce((sum, record) => sum + record.totalClicks, 0);
-    const activeUrls = urlDatabase.filter(record => !record.isExpired).length;
+    const totalUrls = records.length;
+    const totalClicks = records.reduce((sum, record) => sum + record.totalClicks, 0);
+    const activeUrls = records.filter(record => !record.isExpired).length;
 
     const response: StatisticsResponse = {
-      urls: urlDatabase.map(record => ({ ...record })), // Create copies
+      urls: records.map(toLinkStatistics),
       totalUrls,
       totalClicks,
       activeUrls
@@ -250,9 +459,10 @@ export const getStatistics: RequestHandler = (req, res) => {
 export const getLogs: RequestHandler = (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
-    const recentLogs = logs.slice(-limit);
+    const repository = getRepository(req);
+    const recentLogs = repository.listLogs(limit);
     
-    res.json({ logs: recentLogs, total: logs.length });
+    res.json({ logs: recentLogs, total: repository.countLogs() });
   } catch (error) {
     const errorResponse: ErrorResponse = { error: 'Internal server error' };
     res.status(500).json(errorResponse);
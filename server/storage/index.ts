@@ -0,0 +1,38 @@
+import { Request } from "express";
+import { StorageConfig } from "../config";
+import { createMemoryRepository } from "./memory";
+import { createSqliteRepository } from "./sqlite";
+import { createJournalRepository } from "./journal";
+import { UrlRepository } from "./types";
+
+export type { LinkSummary, UrlRepository, StorageDriver } from "./types";
+
+// Builds the repository selected by STORAGE_DRIVER
+export function createRepository(config: StorageConfig): UrlRepository {
+  switch (config.driver) {
+    case "memory":
+      return createMemoryRepository({
+        maxLogs: config.maxLogs,
+        maxClicksPerLink: config.maxClicksPerLink,
+      });
+    case "sqlite":
+      return createSqliteRepository(config.path ?? "data/shortener.db", {
+        maxLogs: config.maxLogs,
+        maxClicksPerLink: config.maxClicksPerLink,
+      });
+    case "journal":
+      return createJournalRepository(config.path ?? "data/journal", {
+        compactEvery: config.compactEvery,
+        compactIntervalMs: config.compactIntervalMs,
+        logSyncDelayMs: config.logSyncDelayMs,
+        maxLogs: config.maxLogs,
+        maxClicksPerLink: config.maxClicksPerLink,
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${config.driver}`);
+  }
+}
+
+// Repository configured on the app in createServer()
+export const getRepository = (req: Request): UrlRepository =>
+  req.app.locals.repository;
@@ -0,0 +1,182 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createJournalRepository } from "./journal";
+import { makeRecord } from "../test-utils";
+
+const click = {
+  timestamp: new Date().toISOString(),
+  source: "Direct",
+  location: "Local",
+  userAgent: "test",
+  ip: "127.0.0.1",
+};
+
+describe("journal repository", () => {
+  const dirs: string[] = [];
+
+  const tempDir = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shortener-journal-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dirs
+      .splice(0)
+      .forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it("should rebuild state by replaying the journal", () => {
+    const dir = tempDir();
+    const first = createJournalRepository(dir, { compactEvery: 0 });
+    first.createLink(makeRecord("abc123"));
+    first.createLink(makeRecord("gone"));
+    first.appendClick("abc123", click);
+    first.updateLink("abc123", { isExpired: true });
+    first.recordExpiredClick("abc123");
+    first.recordBotClick("abc123", "Slack");
+    first.deleteLink("gone");
+    first.appendLog({
+      timestamp: click.timestamp,
+      action: "TEST",
+      ip: "1",
+      userAgent: "ua",
+    });
+    first.close();
+
+    const second = createJournalRepository(dir, { compactEvery: 0 });
+    expect(second.listLinks()).toHaveLength(1);
+    expect(second.findByShortcode("abc123")).toMatchObject({
+      totalClicks: 1,
+      expiredClicks: 1,
+      botClicks: 1,
+      botHits: { Slack: 1 },
+      isExpired: true,
+      clicks: [click],
+    });
+    expect(second.countLogs()).toBe(1);
+    second.close();
+  });
+
+  it("should tolerate a torn last line", () => {
+    const dir = tempDir();
+    const first = createJournalRepository(dir, { compactEvery: 0 });
+    first.createLink(makeRecord("abc123"));
+    first.close();
+
+    const journal = path.join(dir, "journal.ndjson");
+    fs.appendFileSync(journal, '{"seq":2,"type":"click","shortco');
+
+    const second = createJournalRepository(dir, { compactEvery: 0 });
+    expect(second.findByShortcode("abc123")?.totalClicks).toBe(0);
+    second.appendClick("abc123", click);
+    second.close();
+
+    const third = createJournalRepository(dir, { compactEvery: 0 });
+    expect(third.findByShortcode("abc123")?.totalClicks).toBe(1);
+    third.close();
+  });
+
+  it("should refuse a journal corrupted before its last line", () => {
+    const dir = tempDir();
+    fs.writeFileSync(
+      path.join(dir, "journal.ndjson"),
+      'garbage\n{"seq":1,"type":"link_deleted","shortcode":"x"}\n',
+    );
+    expect(() => createJournalRepository(dir)).toThrow(/Corrupt journal entry/);
+  });
+
+  it("should compact into a snapshot and truncate the journal", async () => {
+    const dir = tempDir();
+    const first = createJournalRepository(dir, { compactEvery: 3 });
+    first.createLink(makeRecord("abc123"));
+    first.appendClick("abc123", click);
+    first.appendClick("abc123", click);
+    // Not on the request path: nothing is written until the next turn
+    expect(fs.existsSync(path.join(dir, "snapshot.json"))).toBe(false);
+    await first.flush();
+    expect(fs.statSync(path.join(dir, "journal.ndjson")).size).toBe(0);
+    expect(fs.existsSync(path.join(dir, "snapshot.json"))).toBe(true);
+    first.appendClick("abc123", click);
+    first.close();
+
+    const second = createJournalRepository(dir);
+    expect(second.findByShortcode("abc123")?.totalClicks).toBe(3);
+    second.close();
+  });
+
+  it("should keep events appended while a snapshot is written", async () => {
+    const dir = tempDir();
+    const first = createJournalRepository(dir, { compactEvery: 2 });
+    first.createLink(makeRecord("abc123"));
+    first.appendClick("abc123", click);
+    // Lands after the state is captured, before the snapshot is renamed
+    const writing = first.flush();
+    await new Promise((resolve) => setImmediate(resolve));
+    first.appendClick("abc123", click);
+    await writing;
+    await first.flush();
+    first.close();
+
+    const journal = fs.readFileSync(path.join(dir, "journal.ndjson"), "utf8");
+    expect(journal.trim().split("\n")).toHaveLength(1);
+    const second = createJournalRepository(dir);
+    expect(second.findByShortcode("abc123")?.totalClicks).toBe(2);
+    second.close();
+  });
+
+  it("should batch fsyncs for log entries", async () => {
+    const dir = tempDir();
+    const repository = createJournalRepository(dir, { compactEvery: 0 });
+    const fsync = vi.spyOn(fs, "fsyncSync");
+    for (let i = 0; i < 5; i++) {
+      repository.appendLog({
+        timestamp: click.timestamp,
+        action: "TEST",
+        ip: "1",
+        userAgent: "ua",
+      });
+    }
+    expect(fsync).not.toHaveBeenCalled();
+    await repository.flush();
+    expect(fsync).toHaveBeenCalledTimes(1);
+
+    repository.createLink(makeRecord("abc123"));
+    expect(fsync).toHaveBeenCalledTimes(2);
+    repository.close();
+
+    const second = createJournalRepository(dir);
+    expect(second.countLogs()).toBe(5);
+    second.close();
+  });
+
+  it("should skip journal events already captured by the snapshot", async () => {
+    const dir = tempDir();
+    const first = createJournalRepository(dir, { compactEvery: 0 });
+    first.createLink(makeRecord("abc123"));
+    first.appendClick("abc123", click);
+    first.close();
+
+    // Simulate a crash after the snapshot was written but before the
+    // journal was truncated
+    const journal = fs.readFileSync(path.join(dir, "journal.ndjson"), "utf8");
+    const compacting = createJournalRepository(dir, { compactEvery: 1 });
+    compacting.appendLog({
+      timestamp: click.timestamp,
+      action: "TEST",
+      ip: "1",
+      userAgent: "ua",
+    });
+    await compacting.flush();
+    compacting.close();
+    fs.writeFileSync(path.join(dir, "journal.ndjson"), journal);
+
+    const second = createJournalRepository(dir);
+    expect(second.findByShortcode("abc123")?.totalClicks).toBe(1);
+    expect(second.listLinks()).toHaveLength(1);
+    second.close();
+  });
+});
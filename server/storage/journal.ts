@@ -0,0 +1,403 @@
+import fs from "fs";
+import path from "path";
+import { ClickData, LogEntry, UrlRecord } from "@shared/api";
+import { createMemoryRepository } from "./memory";
+import { UrlRepository } from "./types";
+
+export interface JournalOptions {
+  // Compact after this many events have been appended since the last snapshot
+  compactEvery?: number;
+  // Also compact on a timer (0 disables)
+  compactIntervalMs?: number;
+  // Log entries are not fsynced one by one; a batch is synced at most this
+  // long after its first entry (or earlier, with the next other event)
+  logSyncDelayMs?: number;
+  // Only the most recent log entries are replayed and kept
+  maxLogs?: number;
+  maxClicksPerLink?: number;
+}
+
+type JournalEvent =
+  | { seq: number; type: "link_created"; record: UrlRecord }
+  | {
+      seq: number;
+      type: "link_updated";
+      shortcode: string;
+      changes: Partial<UrlRecord>;
+    }
+  | { seq: number; type: "link_deleted"; shortcode: string }
+  | { seq: number; type: "click"; shortcode: string; click: ClickData }
+  | { seq: number; type: "expired_click"; shortcode: string }
+  | { seq: number; type: "bot_click"; shortcode: string; bot: string }
+  | { seq: number; type: "log"; entry: LogEntry };
+
+// Distributes Omit over the union so each event keeps its own payload type
+type EventPayload = JournalEvent extends infer E
+  ? E extends JournalEvent
+    ? Omit<E, "seq">
+    : never
+  : never;
+
+interface Snapshot {
+  version: 1;
+  seq: number;
+  links: UrlRecord[];
+  logs: LogEntry[];
+}
+
+export interface JournalRepository extends UrlRepository {
+  // Resolves once pending log entries are synced and any compaction in
+  // progress has finished
+  flush(): Promise<void>;
+}
+
+const JOURNAL_FILE = "journal.ndjson";
+const SNAPSHOT_FILE = "snapshot.json";
+
+const fsyncDirectory = (dir: string) => {
+  // Not every platform lets you fsync a directory handle
+  try {
+    const fd = fs.openSync(dir, "r");
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // best effort
+  }
+};
+
+// Reads journal events, dropping a torn trailing line left by a crash
+// mid-append. Corruption anywhere else is an error.
+const readJournal = (file: string): JournalEvent[] => {
+  if (!fs.existsSync(file)) return [];
+
+  const content = fs.readFileSync(file, "utf8");
+  const lines = content.split("\n");
+  const events: JournalEvent[] = [];
+  let validLength = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const isLast = i === lines.length - 1;
+    if (line === "") {
+      if (!isLast) validLength += 1;
+      continue;
+    }
+    // A complete record always ends with a newline
+    const complete = !isLast;
+    try {
+      if (!complete) throw new Error("unterminated line");
+      events.push(JSON.parse(line));
+      validLength += Buffer.byteLength(line) + 1;
+    } catch (error) {
+      const remaining = lines.slice(i + 1).some((rest) => rest !== "");
+      if (remaining) {
+        throw new Error(`Corrupt journal entry at line ${i + 1} of ${file}`);
+      }
+      fs.truncateSync(file, validLength);
+      break;
+    }
+  }
+
+  return events;
+};
+
+const readSnapshot = (file: string): Snapshot | undefined => {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+};
+
+// Zero-dependency durable storage: every mutation is appended to an NDJSON
+// journal and fsynced before returning (log entries in batches). State lives
+// in a memory repository rebuilt from the latest snapshot plus the journal
+// on startup.
+export function createJournalRepository(
+  dir: string,
+  options: JournalOptions = {},
+): JournalRepository {
+  const {
+    compactEvery = 1000,
+    compactIntervalMs = 0,
+    logSyncDelayMs = 1000,
+  } = options;
+  const journalFile = path.join(dir, JOURNAL_FILE);
+  const snapshotFile = path.join(dir, SNAPSHOT_FILE);
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  const memory = createMemoryRepository({
+    maxLogs: options.maxLogs,
+    maxClicksPerLink: options.maxClicksPerLink,
+  });
+  let seq = 0;
+
+  const apply = (event: JournalEvent) => {
+    switch (event.type) {
+      case "link_created":
+        memory.createLink(event.record);
+        break;
+      case "link_updated":
+        memory.updateLink(event.shortcode, event.changes);
+        break;
+      case "link_deleted":
+        memory.deleteLink(event.shortcode);
+        break;
+      case "click":
+        memory.appendClick(event.shortcode, event.click);
+        break;
+      case "expired_click":
+        memory.recordExpiredClick(event.shortcode);
+        break;
+      case "bot_click":
+        memory.recordBotClick(event.shortcode, event.bot);
+        break;
+      case "log":
+        memory.appendLog(event.entry);
+        break;
+    }
+  };
+
+  // Replay: snapshot first, then any journal events newer than it. Events
+  // at or below the snapshot's seq survive a crash between writing the
+  // snapshot and truncating the journal, so they are skipped here.
+  const snapshot = readSnapshot(snapshotFile);
+  if (snapshot) {
+    snapshot.links.forEach((record) => memory.createLink(record));
+    snapshot.logs.forEach((entry) => memory.appendLog(entry));
+    seq = snapshot.seq;
+  }
+  for (const event of readJournal(journalFile)) {
+    if (event.seq <= seq) continue;
+    apply(event);
+    seq = event.seq;
+  }
+
+  // Read access for copying the tail of the journal during compaction
+  let fd = fs.openSync(journalFile, "a+");
+  let eventsSinceSnapshot = 0;
+  let closed = false;
+  // Set while a snapshot is being written
+  let compaction: Promise<void> | undefined;
+  // Log entries written but not yet fsynced
+  let unsyncedLogs = false;
+  let logSyncTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const syncNow = () => {
+    fs.fsyncSync(fd);
+    unsyncedLogs = false;
+  };
+
+  const scheduleLogSync = () => {
+    unsyncedLogs = true;
+    if (logSyncTimer) return;
+    logSyncTimer = setTimeout(() => {
+      logSyncTimer = undefined;
+      if (closed || !unsyncedLogs) return;
+      unsyncedLogs = false;
+      // A failed sync only risks the latest log entries, and the next
+      // other event syncs them again
+      fs.fsync(fd, () => {});
+    }, logSyncDelayMs);
+    logSyncTimer.unref();
+  };
+
+  // Serializes the state right away but writes it out asynchronously. Events
+  // appended meanwhile stay in the journal: once the snapshot is durable the
+  // journal is replaced by just those newer events. Replay skips anything at
+  // or below the snapshot's seq, so a crash at any point is safe.
+  const compact = async () => {
+    if (closed) return;
+    const snapshotSeq = seq;
+    const journalBytes = fs.fstatSync(fd).size;
+    const next: Snapshot = {
+      version: 1,
+      seq: snapshotSeq,
+      links: [...memory.listLinks(), ...memory.listArchivedLinks()],
+      logs: memory.listLogs(memory.countLogs()),
+    };
+    const content = JSON.stringify(next);
+    eventsSinceSnapshot = 0;
+
+    const tmpFile = `${snapshotFile}.tmp`;
+    const handle = await fs.promises.open(tmpFile, "w");
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tmpFile, snapshotFile);
+    fsyncDirectory(dir);
+    if (closed) return;
+
+    // Synchronous from here on, so no append can slip in between; the tail
+    // is only what was appended while the snapshot was written
+    const tail = Buffer.alloc(fs.fstatSync(fd).size - journalBytes);
+    fs.readSync(fd, tail, 0, tail.length, journalBytes);
+    const tmpJournal = `${journalFile}.tmp`;
+    const tmpFd = fs.openSync(tmpJournal, "w");
+    try {
+      fs.writeSync(tmpFd, tail);
+      fs.fsyncSync(tmpFd);
+    } finally {
+      fs.closeSync(tmpFd);
+    }
+    fs.renameSync(tmpJournal, journalFile);
+    fs.closeSync(fd);
+    fd = fs.openSync(journalFile, "a+");
+    fsyncDirectory(dir);
+    unsyncedLogs = false;
+  };
+
+  // Never runs inside the request that crossed the threshold
+  const scheduleCompaction = () => {
+    if (compaction || closed) return;
+    compaction = new Promise((resolve) => setImmediate(resolve))
+      .then(compact)
+      .catch((error) => {
+        console.error("[URL_SHORTENER] Journal compaction failed:", error);
+      })
+      .finally(() => {
+        compaction = undefined;
+        if (compactEvery > 0 && eventsSinceSnapshot >= compactEvery) {
+          scheduleCompaction();
+        }
+      });
+  };
+
+  const append = (payload: EventPayload) => {
+    const event = { seq: seq + 1, ...payload } as JournalEvent;
+    fs.writeSync(fd, JSON.stringify(event) + "\n");
+    // Syncing any other event also covers the log entries written before it
+    if (event.type === "log") scheduleLogSync();
+    else syncNow();
+    seq = event.seq;
+    apply(event);
+
+    eventsSinceSnapshot++;
+    if (compactEvery > 0 && eventsSinceSnapshot >= compactEvery) {
+      scheduleCompaction();
+    }
+  };
+
+  const timer =
+    compactIntervalMs > 0
+      ? setInterval(() => {
+          if (eventsSinceSnapshot > 0) scheduleCompaction();
+        }, compactIntervalMs)
+      : undefined;
+  timer?.unref();
+
+  return {
+    createLink(record) {
+      if (memory.shortcodeExists(record.shortcode)) {
+        throw new Error(`Shortcode already exists: ${record.shortcode}`);
+      }
+      append({ type: "link_created", record });
+      return memory.findByShortcode(record.shortcode);
+    },
+
+    findByShortcode(shortcode) {
+      return memory.findByShortcode(shortcode);
+    },
+
+    findById(id) {
+      return memory.findById(id);
+    },
+
+    findByOriginalUrl(originalUrl) {
+      return memory.findByOriginalUrl(originalUrl);
+    },
+
+    updateLink(shortcode, changes) {
+      if (!memory.shortcodeExists(shortcode)) return undefined;
+      append({ type: "link_updated", shortcode, changes });
+      return memory.findByShortcode(shortcode);
+    },
+
+    listLinks() {
+      return memory.listLinks();
+    },
+
+    listArchivedLinks() {
+      return memory.listArchivedLinks();
+    },
+
+    listLinksExpiringBy(time) {
+      return memory.listLinksExpiringBy(time);
+    },
+
+    listLinksArchivedBy(time) {
+      return memory.listLinksArchivedBy(time);
+    },
+
+    listActiveLinks(time) {
+      return memory.listActiveLinks(time);
+    },
+
+    deleteLink(shortcode) {
+      if (!memory.shortcodeExists(shortcode)) return false;
+      append({ type: "link_deleted", shortcode });
+      return true;
+    },
+
+    shortcodeExists(shortcode) {
+      return memory.shortcodeExists(shortcode);
+    },
+
+    appendClick(shortcode, click) {
+      const record = memory.findByShortcode(shortcode);
+      if (!record) return undefined;
+      if (
+        record.maxClicks !== undefined &&
+        record.totalClicks >= record.maxClicks
+      ) {
+        return undefined;
+      }
+      append({ type: "click", shortcode, click });
+      return memory.findByShortcode(shortcode);
+    },
+
+    recordExpiredClick(shortcode) {
+      if (!memory.shortcodeExists(shortcode)) return undefined;
+      append({ type: "expired_click", shortcode });
+      return memory.findByShortcode(shortcode);
+    },
+
+    recordBotClick(shortcode, bot) {
+      if (!memory.shortcodeExists(shortcode)) return undefined;
+      append({ type: "bot_click", shortcode, bot });
+      return memory.findByShortcode(shortcode);
+    },
+
+    appendLog(entry) {
+      append({ type: "log", entry });
+    },
+
+    listLogs(limit) {
+      return memory.listLogs(limit);
+    },
+
+    countLogs() {
+      return memory.countLogs();
+    },
+
+    async flush() {
+      // A compaction can finish with more events due, which starts another
+      while (compaction) await compaction;
+      if (unsyncedLogs && !closed) syncNow();
+    },
+
+    close() {
+      if (closed) return;
+      closed = true;
+      if (timer) clearInterval(timer);
+      if (logSyncTimer) clearTimeout(logSyncTimer);
+      if (unsyncedLogs) syncNow();
+      fs.closeSync(fd);
+      memory.close();
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { bench, describe } from "vitest";
+import { UrlRecord } from "@shared/api";
+import { createMemoryRepository } from "./memory";
+
+// Redirects and shortcode collision checks should cost the same whether the
+// store holds a thousand links or a few hundred thousand.
+const SIZES = [1_000, 100_000, 300_000];
+
+const makeRecord = (i: number): UrlRecord => ({
+  id: `id-${i}`,
+  originalUrl: `https://example.com/page/${i}`,
+  shortcode: `code${i}`,
+  shortenedUrl: `http://localhost/r/code${i}`,
+  createdAt: new Date(0).toISOString(),
+  expiryTime: new Date(8.64e15).toISOString(),
+  validityMinutes: 60,
+  totalClicks: 0,
+  clicks: [],
+  isExpired: false,
+});
+
+for (const size of SIZES) {
+  const repository = createMemoryRepository();
+  for (let i = 0; i < size; i++) repository.createLink(makeRecord(i));
+  // Look up the newest link: the worst case for a linear scan
+  const target = `code${size - 1}`;
+
+  describe(`${size.toLocaleString("en-US")} links`, () => {
+    bench("redirect lookup (findByShortcode)", () => {
+      repository.findByShortcode(target);
+    });
+
+    bench("collision check (shortcodeExists)", () => {
+      repository.shortcodeExists("doesNotExist");
+    });
+  });
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMemoryRepository } from "./memory";
+import { UrlRepository } from "./types";
+import { makeRecord } from "../test-utils";
+
+describe("memory repository", () => {
+  let repository: UrlRepository;
+
+  beforeEach(() => {
+    repository = createMemoryRepository();
+  });
+
+  it("should create and find links by shortcode", () => {
+    repository.createLink(makeRecord("abc123"));
+    expect(repository.findByShortcode("abc123")?.originalUrl).toBe(
+      "https://example.com/abc123",
+    );
+    expect(repository.shortcodeExists("abc123")).toBe(true);
+    expect(repository.findByShortcode("missing")).toBeUndefined();
+  });
+
+  it("should find links by id and original URL", () => {
+    repository.createLink(makeRecord("abc123"));
+    repository.createLink({
+      ...makeRecord("def456"),
+      originalUrl: "https://example.com/abc123",
+    });
+    expect(repository.findById("id-abc123")?.shortcode).toBe("abc123");
+    expect(
+      repository
+        .findByOriginalUrl("https://example.com/abc123")
+        .map((r) => r.shortcode),
+    ).toEqual(["abc123", "def456"]);
+
+    repository.updateLink("def456", {
+      originalUrl: "https://example.com/moved",
+    });
+    expect(
+      repository.findByOriginalUrl("https://example.com/abc123"),
+    ).toHaveLength(1);
+    expect(
+      repository.findByOriginalUrl("https://example.com/moved"),
+    ).toHaveLength(1);
+
+    repository.deleteLink("abc123");
+    expect(repository.findById("id-abc123")).toBeUndefined();
+    expect(repository.findByOriginalUrl("https://example.com/abc123")).toEqual(
+      [],
+    );
+  });
+
+  it("should reject duplicate shortcodes", () => {
+    repository.createLink(makeRecord("abc123"));
+    expect(() => repository.createLink(makeRecord("abc123"))).toThrow(
+      /already exists/,
+    );
+  });
+
+  it("should return copies rather than stored records", () => {
+    repository.createLink(makeRecord("abc123"));
+    const found = repository.findByShortcode("abc123")!;
+    found.isExpired = true;
+    expect(repository.findByShortcode("abc123")!.isExpired).toBe(false);
+  });
+
+  it("should update and delete links", () => {
+    repository.createLink(makeRecord("abc123"));
+    expect(
+      repository.updateLink("abc123", { isExpired: true })?.isExpired,
+    ).toBe(true);
+    expect(repository.deleteLink("abc123")).toBe(true);
+    expect(repository.deleteLink("abc123")).toBe(false);
+    expect(repository.listLinks()).toHaveLength(0);
+  });
+
+  it("should append clicks and count them", () => {
+    repository.createLink(makeRecord("abc123"));
+    const updated = repository.appendClick("abc123", {
+      timestamp: new Date().toISOString(),
+      source: "Direct",
+      location: "Local",
+      userAgent: "test",
+      ip: "127.0.0.1",
+    });
+    expect(updated?.totalClicks).toBe(1);
+    expect(updated?.clicks).toHaveLength(1);
+    expect(
+      repository.appendClick("missing", updated!.clicks[0]),
+    ).toBeUndefined();
+  });
+
+  it("should list links due for the background jobs", () => {
+    const now = "2026-02-01T00:00:00.000Z";
+    const at = (iso: string) => ({ expiryTime: iso });
+    repository.createLink(makeRecord("due", at("2026-01-01T00:00:00.000Z")));
+    repository.createLink(makeRecord("live", at("2026-03-01T00:00:00.000Z")));
+    repository.createLink(
+      makeRecord("off", {
+        ...at("2026-03-01T00:00:00.000Z"),
+        disabled: true,
+      }),
+    );
+    repository.createLink(
+      makeRecord("gone", {
+        ...at("2025-12-01T00:00:00.000Z"),
+        isExpired: true,
+        archivedAt: "2025-12-08T00:00:00.000Z",
+      }),
+    );
+    repository.appendClick("live", {
+      timestamp: now,
+      source: "Direct",
+      location: "Local",
+      userAgent: "test",
+      ip: "127.0.0.1",
+    });
+
+    const codes = (records: { shortcode: string }[]) =>
+      records.map((record) => record.shortcode);
+    expect(codes(repository.listLinksExpiringBy(now))).toEqual(["due"]);
+    expect(codes(repository.listActiveLinks(now))).toEqual(["live"]);
+    expect(repository.listActiveLinks(now)[0]).not.toHaveProperty("clicks");
+    expect(codes(repository.listLinksArchivedBy(now))).toEqual(["gone"]);
+    expect(repository.listLinksArchivedBy("2025-12-07T00:00:00.000Z")).toEqual(
+      [],
+    );
+  });
+
+  it("should count expired clicks apart from totalClicks", () => {
+    repository.createLink(makeRecord("old"));
+    repository.recordExpiredClick("old");
+    expect(repository.recordExpiredClick("old")).toMatchObject({
+      totalClicks: 0,
+      expiredClicks: 2,
+    });
+    expect(repository.recordExpiredClick("missing")).toBeUndefined();
+  });
+
+  it("should count bot visits by name apart from totalClicks", () => {
+    repository.createLink(makeRecord("shared"));
+    repository.recordBotClick("shared", "Slack");
+    repository.recordBotClick("shared", "Slack");
+    expect(repository.recordBotClick("shared", "Twitter")).toMatchObject({
+      totalClicks: 0,
+      botClicks: 3,
+      botHits: { Slack: 2, Twitter: 1 },
+    });
+    expect(repository.recordBotClick("missing", "Slack")).toBeUndefined();
+  });
+
+  it("should refuse clicks once maxClicks is reached", () => {
+    repository.createLink(makeRecord("once", { maxClicks: 1 }));
+    const click = {
+      timestamp: new Date().toISOString(),
+      source: "Direct",
+      location: "Local",
+      userAgent: "test",
+      ip: "127.0.0.1",
+    };
+    expect(repository.appendClick("once", click)?.totalClicks).toBe(1);
+    expect(repository.appendClick("once", click)).toBeUndefined();
+    expect(repository.findByShortcode("once")).toMatchObject({
+      totalClicks: 1,
+      clicks: [click],
+    });
+  });
+
+  it("should keep a capped click window alongside rollups", () => {
+    const capped = createMemoryRepository({ maxClicksPerLink: 2 });
+    capped.createLink(makeRecord("abc123"));
+    ["01", "02", "03"].forEach((minute) =>
+      capped.appendClick("abc123", {
+        timestamp: `2026-01-10T12:${minute}:00.000Z`,
+        source: "Direct",
+        location: "Local",
+        userAgent: "test",
+        ip: "127.0.0.1",
+      }),
+    );
+
+    const record = capped.findByShortcode("abc123");
+    expect(record.totalClicks).toBe(3);
+    expect(record.clicks.map((c) => c.timestamp)).toEqual([
+      "2026-01-10T12:02:00.000Z",
+      "2026-01-10T12:03:00.000Z",
+    ]);
+    expect(record.rollups.hourly["2026-01-10T12"].total).toBe(3);
+    expect(record.rollups.daily["2026-01-10"].bySource).toEqual({ Direct: 3 });
+  });
+
+  it("should cap stored logs at maxLogs", () => {
+    const bounded = createMemoryRepository({ maxLogs: 3 });
+    for (let i = 0; i < 10; i++) {
+      bounded.appendLog({
+        timestamp: new Date().toISOString(),
+        action: `ACTION_${i}`,
+        ip: "127.0.0.1",
+        userAgent: "test",
+      });
+    }
+    expect(bounded.countLogs()).toBe(3);
+    expect(bounded.listLogs(100).map((entry) => entry.action)).toEqual([
+      "ACTION_7",
+      "ACTION_8",
+      "ACTION_9",
+    ]);
+  });
+
+  it("should keep the most recent logs", () => {
+    for (let i = 0; i < 5; i++) {
+      repository.appendLog({
+        timestamp: new Date().toISOString(),
+        action: `ACTION_${i}`,
+        ip: "127.0.0.1",
+        userAgent: "test",
+      });
+    }
+    expect(repository.countLogs()).toBe(5);
+    expect(repository.listLogs(2).map((entry) => entry.action)).toEqual([
+      "ACTION_3",
+      "ACTION_4",
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { ClickData, LogEntry, UrlRecord } from "@shared/api";
+import { LinkSummary, UrlRepository } from "./types";
+import { createRingBuffer } from "../lib/ringBuffer";
+import { applyClick, buildRollups } from "../lib/rollups";
+
+export interface MemoryRepositoryOptions {
+  // Only the most recent log entries are kept
+  maxLogs?: number;
+  // Raw clicks kept per link; older clicks only survive in the rollups
+  maxClicksPerLink?: number;
+}
+
+// Rollups are replaced, never mutated, so copies can share them
+const copyRecord = (record: UrlRecord): UrlRecord => ({
+  ...record,
+  clicks: [...record.clicks],
+});
+
+const summarize = ({
+  clicks: _clicks,
+  rollups: _rollups,
+  ...summary
+}: UrlRecord): LinkSummary => summary;
+
+// Keeps everything in process memory; data is lost on restart.
+// Links are held in keyed indexes so lookups stay O(1) as the table grows.
+export function createMemoryRepository(
+  options: MemoryRepositoryOptions = {},
+): UrlRepository {
+  // Map iteration follows insertion order, which listLinks relies on
+  const byShortcode = new Map<string, UrlRecord>();
+  const byId = new Map<string, UrlRecord>();
+  const byOriginalUrl = new Map<string, Set<UrlRecord>>();
+  const logs = createRingBuffer<LogEntry>(options.maxLogs ?? 1000);
+  const maxClicks = options.maxClicksPerLink ?? 100;
+
+  const indexOriginalUrl = (record: UrlRecord) => {
+    let records = byOriginalUrl.get(record.originalUrl);
+    if (!records) {
+      records = new Set();
+      byOriginalUrl.set(record.originalUrl, records);
+    }
+    records.add(record);
+  };
+
+  const unindexOriginalUrl = (record: UrlRecord) => {
+    const records = byOriginalUrl.get(record.originalUrl);
+    if (!records) return;
+    records.delete(record);
+    if (records.size === 0) byOriginalUrl.delete(record.originalUrl);
+  };
+
+  return {
+    createLink(record) {
+      if (byShortcode.has(record.shortcode)) {
+        throw new Error(`Shortcode already exists: ${record.shortcode}`);
+      }
+      const stored: UrlRecord = {
+        ...record,
+        clicks: record.clicks.slice(-maxClicks),
+        rollups: record.rollups ?? buildRollups(record.clicks),
+      };
+      byShortcode.set(stored.shortcode, stored);
+      byId.set(stored.id, stored);
+      indexOriginalUrl(stored);
+      return copyRecord(stored);
+    },
+
+    findByShortcode(shortcode) {
+      const record = byShortcode.get(shortcode);
+      return record ? copyRecord(record) : undefined;
+    },
+
+    findById(id) {
+      const record = byId.get(id);
+      return record ? copyRecord(record) : undefined;
+    },
+
+    findByOriginalUrl(originalUrl) {
+      return [...(byOriginalUrl.get(originalUrl) ?? [])].map(copyRecord);
+    },
+
+    updateLink(shortcode, changes) {
+      const record = byShortcode.get(shortcode);
+      if (!record) return undefined;
+      byId.delete(record.id);
+      unindexOriginalUrl(record);
+      Object.assign(record, changes, { shortcode: record.shortcode });
+      byId.set(record.id, record);
+      indexOriginalUrl(record);
+      return copyRecord(record);
+    },
+
+    listLinks() {
+      return [...byShortcode.values()]
+        .filter((record) => !record.archivedAt)
+        .map(copyRecord);
+    },
+
+    listArchivedLinks() {
+      return [...byShortcode.values()]
+        .filter((record) => record.archivedAt)
+        .map(copyRecord);
+    },
+
+    listLinksExpiringBy(time) {
+      return [...byShortcode.values()]
+        .filter((record) => !record.archivedAt && record.expiryTime <= time)
+        .map(summarize);
+    },
+
+    listLinksArchivedBy(time) {
+      return [...byShortcode.values()]
+        .filter((record) => record.archivedAt && record.archivedAt <= time)
+        .map(summarize);
+    },
+
+    listActiveLinks(time) {
+      return [...byShortcode.values()]
+        .filter(
+          (record) =>
+            !record.archivedAt &&
+            !record.isExpired &&
+            !record.disabled &&
+            record.expiryTime > time,
+        )
+        .map(summarize);
+    },
+
+    deleteLink(shortcode) {
+      const record = byShortcode.get(shortcode);
+      if (!record) return false;
+      byShortcode.delete(shortcode);
+      byId.delete(record.id);
+      unindexOriginalUrl(record);
+      return true;
+    },
+
+    shortcodeExists(shortcode) {
+      return byShortcode.has(shortcode);
+    },
+
+    appendClick(shortcode, click: ClickData) {
+      const record = byShortcode.get(shortcode);
+      if (!record) return undefined;
+      if (
+        record.maxClicks !== undefined &&
+        record.totalClicks >= record.maxClicks
+      ) {
+        return undefined;
+      }
+      record.clicks.push(click);
+      if (record.clicks.length > maxClicks) record.clicks.shift();
+      record.rollups = applyClick(record.rollups, click);
+      record.totalClicks++;
+      return copyRecord(record);
+    },
+
+    recordExpiredClick(shortcode) {
+      const record = byShortcode.get(shortcode);
+      if (!record) return undefined;
+      record.expiredClicks = (record.expiredClicks ?? 0) + 1;
+      return copyRecord(record);
+    },
+
+    recordBotClick(shortcode, bot) {
+      const record = byShortcode.get(shortcode);
+      if (!record) return undefined;
+      record.botClicks = (record.botClicks ?? 0) + 1;
+      record.botHits = {
+        ...record.botHits,
+        [bot]: (record.botHits?.[bot] ?? 0) + 1,
+      };
+      return copyRecord(record);
+    },
+
+    appendLog(entry) {
+      logs.push(entry);
+    },
+
+    listLogs(limit) {
+      return logs.last(limit);
+    },
+
+    countLogs() {
+      return logs.size;
+    },
+
+    close() {
+      byShortcode.clear();
+      byId.clear();
+      byOriginalUrl.clear();
+      logs.clear();
+    },
+  };
+}
@@ -0,0 +1,273 @@
+import type { DatabaseSync } from "node:sqlite";
+import { ClickData } from "@shared/api";
+import { buildRollups } from "../lib/rollups";
+import { insertRollups } from "./sqliteRollups";
+
+export interface Migration {
+  version: number;
+  name: string;
+  // SQL to execute, or a function for data migrations that need code
+  up: string | ((db: DatabaseSync) => void);
+}
+
+// Append new migrations to the end; never edit one that has shipped.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "create_links_clicks_logs",
+    up: `
+      CREATE TABLE links (
+        id TEXT PRIMARY KEY,
+        shortcode TEXT NOT NULL UNIQUE,
+        original_url TEXT NOT NULL,
+        shortened_url TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expiry_time TEXT NOT NULL,
+        validity_minutes INTEGER NOT NULL,
+        total_clicks INTEGER NOT NULL DEFAULT 0,
+        is_expired INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX idx_links_created_at ON links (created_at);
+      CREATE INDEX idx_links_expiry_time ON links (expiry_time);
+
+      CREATE TABLE clicks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id TEXT NOT NULL REFERENCES links (id) ON DELETE CASCADE,
+        timestamp TEXT NOT NULL,
+        source TEXT NOT NULL,
+        location TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        ip TEXT NOT NULL
+      );
+      CREATE INDEX idx_clicks_link_timestamp ON clicks (link_id, timestamp);
+
+      CREATE TABLE logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        action TEXT NOT NULL,
+        user_id TEXT,
+        shortcode TEXT,
+        original_url TEXT,
+        ip TEXT NOT NULL,
+        user_agent TEXT NOT NULL,
+        details TEXT
+      );
+      CREATE INDEX idx_logs_timestamp ON logs (timestamp);
+      CREATE INDEX idx_logs_shortcode ON logs (shortcode);
+    `,
+  },
+  {
+    version: 2,
+    name: "index_links_original_url",
+    up: `CREATE INDEX idx_links_original_url ON links (original_url);`,
+  },
+  {
+    version: 3,
+    name: "add_links_redirect_policy",
+    up: `
+      ALTER TABLE links ADD COLUMN redirect_type INTEGER NOT NULL DEFAULT 302;
+      ALTER TABLE links ADD COLUMN cache_policy TEXT NOT NULL DEFAULT 'no-store';
+      ALTER TABLE links ADD COLUMN cache_max_age_seconds INTEGER;
+    `,
+  },
+  {
+    version: 4,
+    name: "add_links_archived_at",
+    up: `
+      ALTER TABLE links ADD COLUMN archived_at TEXT;
+      CREATE INDEX idx_links_archived_at ON links (archived_at);
+    `,
+  },
+  {
+    version: 5,
+    name: "create_click_rollups",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE click_rollups (
+          link_id TEXT NOT NULL REFERENCES links (id) ON DELETE CASCADE,
+          granularity TEXT NOT NULL,
+          bucket TEXT NOT NULL,
+          dimension TEXT NOT NULL,
+          key TEXT NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (link_id, granularity, bucket, dimension, key)
+        );
+      `);
+
+      // Backfill from the raw clicks recorded so far
+      const clicks = db.prepare(
+        "SELECT timestamp, source, location, user_agent FROM clicks WHERE link_id = ? ORDER BY id",
+      );
+      for (const { id } of db.prepare("SELECT id FROM links").all()) {
+        const linkClicks = clicks.all(String(id)).map(
+          (row): ClickData => ({
+            timestamp: String(row.timestamp),
+            source: String(row.source),
+            location: String(row.location),
+            userAgent: String(row.user_agent),
+            ip: "",
+          }),
+        );
+        if (linkClicks.length > 0) {
+          insertRollups(db, String(id), buildRollups(linkClicks));
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    name: "add_links_password_hash",
+    up: `ALTER TABLE links ADD COLUMN password_hash TEXT;`,
+  },
+  {
+    version: 7,
+    name: "add_links_max_clicks",
+    up: `ALTER TABLE links ADD COLUMN max_clicks INTEGER;`,
+  },
+  {
+    version: 8,
+    name: "add_links_active_from",
+    up: `ALTER TABLE links ADD COLUMN active_from TEXT;`,
+  },
+  {
+    version: 9,
+    name: "add_links_expired_fallback",
+    up: `
+      ALTER TABLE links ADD COLUMN expired_redirect_url TEXT;
+      ALTER TABLE links ADD COLUMN expired_clicks INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 10,
+    name: "add_platform_targeting",
+    up: `
+      ALTER TABLE links ADD COLUMN platform_destinations TEXT;
+      ALTER TABLE clicks ADD COLUMN platform TEXT;
+      ALTER TABLE clicks ADD COLUMN os TEXT;
+    `,
+  },
+  {
+    version: 11,
+    name: "add_geo_targeting",
+    up: `
+      ALTER TABLE links ADD COLUMN country_destinations TEXT;
+      ALTER TABLE clicks ADD COLUMN country TEXT;
+      ALTER TABLE clicks ADD COLUMN region TEXT;
+      ALTER TABLE clicks ADD COLUMN city TEXT;
+    `,
+  },
+  {
+    version: 12,
+    name: "add_ab_variants",
+    up: `
+      ALTER TABLE links ADD COLUMN variants TEXT;
+      ALTER TABLE links ADD COLUMN sticky_variants INTEGER;
+      ALTER TABLE clicks ADD COLUMN variant TEXT;
+    `,
+  },
+  {
+    version: 13,
+    name: "add_query_forwarding",
+    up: `
+      ALTER TABLE links ADD COLUMN forward_query INTEGER;
+      ALTER TABLE links ADD COLUMN utm TEXT;
+    `,
+  },
+  {
+    version: 14,
+    name: "add_path_forwarding",
+    up: `ALTER TABLE links ADD COLUMN forward_path INTEGER;`,
+  },
+  {
+    version: 15,
+    name: "add_template_links",
+    up: `ALTER TABLE links ADD COLUMN template INTEGER;`,
+  },
+  {
+    version: 16,
+    name: "add_interstitials",
+    up: `
+      ALTER TABLE links ADD COLUMN interstitial INTEGER;
+      ALTER TABLE links ADD COLUMN interstitial_seconds INTEGER;
+    `,
+  },
+  {
+    version: 17,
+    name: "add_links_disabled",
+    up: `ALTER TABLE links ADD COLUMN disabled INTEGER;`,
+  },
+  {
+    version: 18,
+    name: "add_bot_clicks",
+    up: `
+      ALTER TABLE links ADD COLUMN bot_clicks INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE links ADD COLUMN bot_hits TEXT;
+    `,
+  },
+  {
+    version: 19,
+    name: "add_open_graph",
+    up: `ALTER TABLE links ADD COLUMN open_graph TEXT;`,
+  },
+  {
+    version: 20,
+    name: "add_link_health",
+    up: `ALTER TABLE links ADD COLUMN health TEXT;`,
+  },
+];
+
+// Applies pending migrations in order, each inside its own transaction.
+// Returns the schema version the database ends up at.
+export function runMigrations(
+  db: DatabaseSync,
+  available: Migration[] = migrations,
+): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get();
+  let current = Number(row?.version ?? 0);
+
+  const latest = available.reduce((max, m) => Math.max(max, m.version), 0);
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this server supports (${latest})`,
+    );
+  }
+
+  const pending = available
+    .filter((migration) => migration.version > current)
+    .sort((a, b) => a.version - b.version);
+
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+  );
+
+  for (const migration of pending) {
+    db.exec("BEGIN");
+    try {
+      if (typeof migration.up === "string") {
+        db.exec(migration.up);
+      } else {
+        migration.up(db);
+      }
+      record.run(migration.version, migration.name, new Date().toISOString());
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error.message}`,
+      );
+    }
+    current = migration.version;
+  }
+
+  return current;
+}
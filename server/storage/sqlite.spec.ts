@@ -0,0 +1,422 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+import { createSqliteRepository, SQLITE_UNAVAILABLE } from "./sqlite";
+import { migrations, runMigrations } from "./migrations";
+import { makeRecord } from "../test-utils";
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const click = {
+  timestamp: new Date().toISOString(),
+  source: "Direct",
+  location: "Local",
+  userAgent: "test",
+  ip: "127.0.0.1",
+};
+
+// Only the sqlite driver needs Node 22.13+; older runtimes get a clear error
+describe.skipIf(hasSqlite)("sqlite repository without node:sqlite", () => {
+  it("should explain the Node requirement", () => {
+    expect(() => createSqliteRepository(":memory:")).toThrow(
+      SQLITE_UNAVAILABLE,
+    );
+  });
+});
+
+describe.skipIf(!hasSqlite)("sqlite repository", () => {
+  const dirs: string[] = [];
+
+  const tempFile = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shortener-sqlite-"));
+    dirs.push(dir);
+    return path.join(dir, "shortener.db");
+  };
+
+  afterEach(() => {
+    dirs
+      .splice(0)
+      .forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it("should persist links, clicks and logs across restarts", () => {
+    const file = tempFile();
+    const first = createSqliteRepository(file);
+    first.createLink(makeRecord("abc123"));
+    first.appendClick("abc123", click);
+    first.updateLink("abc123", { isExpired: true });
+    first.appendLog({
+      timestamp: click.timestamp,
+      action: "TEST",
+      ip: "1.1.1.1",
+      userAgent: "ua",
+      details: { a: 1 },
+    });
+    first.close();
+
+    const second = createSqliteRepository(file);
+    const record = second.findByShortcode("abc123");
+    expect(record?.totalClicks).toBe(1);
+    expect(record?.clicks).toEqual([click]);
+    expect(record?.isExpired).toBe(true);
+    expect(second.listLogs(10)).toEqual([
+      {
+        timestamp: click.timestamp,
+        action: "TEST",
+        ip: "1.1.1.1",
+        userAgent: "ua",
+        details: { a: 1 },
+      },
+    ]);
+    second.close();
+  });
+
+  it("should find links by id and original URL", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("abc123"));
+    repository.createLink({
+      ...makeRecord("def456"),
+      originalUrl: "https://example.com/abc123",
+    });
+    expect(repository.findById("id-abc123")?.shortcode).toBe("abc123");
+    expect(
+      repository
+        .findByOriginalUrl("https://example.com/abc123")
+        .map((r) => r.shortcode),
+    ).toEqual(["abc123", "def456"]);
+    repository.close();
+  });
+
+  it("should store per-link redirect policies", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("plain"));
+    repository.createLink(
+      makeRecord("perm", {
+        redirectType: 308,
+        cachePolicy: "public",
+        cacheMaxAgeSeconds: 60,
+      }),
+    );
+    expect(repository.findByShortcode("plain")).toMatchObject({
+      redirectType: 302,
+      cachePolicy: "no-store",
+    });
+    expect(repository.findByShortcode("perm")).toMatchObject({
+      redirectType: 308,
+      cachePolicy: "public",
+      cacheMaxAgeSeconds: 60,
+    });
+    repository.close();
+  });
+
+  it("should store password hashes", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(
+      makeRecord("locked", { passwordHash: "scrypt$1$a$b" }),
+    );
+    expect(repository.findByShortcode("locked").passwordHash).toBe(
+      "scrypt$1$a$b",
+    );
+    expect(
+      repository.updateLink("locked", { passwordHash: null }).passwordHash,
+    ).toBeUndefined();
+    repository.close();
+  });
+
+  it("should list archived links separately", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("live"));
+    repository.createLink(makeRecord("old"));
+    repository.appendClick("old", click);
+    repository.updateLink("old", { archivedAt: new Date().toISOString() });
+
+    expect(repository.listLinks().map((r) => r.shortcode)).toEqual(["live"]);
+    const [archived] = repository.listArchivedLinks();
+    expect(archived.shortcode).toBe("old");
+    expect(archived.clicks).toEqual([click]);
+    repository.close();
+  });
+
+  it("should prune logs beyond maxLogs", () => {
+    const repository = createSqliteRepository(":memory:", { maxLogs: 2 });
+    ["ONE", "TWO", "THREE"].forEach((action) =>
+      repository.appendLog({
+        timestamp: click.timestamp,
+        action,
+        ip: "1",
+        userAgent: "ua",
+      }),
+    );
+    expect(repository.countLogs()).toBe(2);
+    expect(repository.listLogs(10).map((entry) => entry.action)).toEqual([
+      "TWO",
+      "THREE",
+    ]);
+    repository.close();
+  });
+
+  it("should maintain rollups and a capped click window", () => {
+    const repository = createSqliteRepository(":memory:", {
+      maxClicksPerLink: 2,
+    });
+    repository.createLink(makeRecord("abc123"));
+    ["01", "02", "03"].forEach((minute) =>
+      repository.appendClick("abc123", {
+        ...click,
+        timestamp: `2026-01-10T12:${minute}:00.000Z`,
+        source: "https://t.co/x",
+      }),
+    );
+
+    const record = repository.findByShortcode("abc123");
+    expect(record.totalClicks).toBe(3);
+    expect(record.clicks).toHaveLength(2);
+    expect(record.rollups.hourly["2026-01-10T12"]).toEqual({
+      total: 3,
+      bySource: { "t.co": 3 },
+      byLocation: { Local: 3 },
+      byDevice: { desktop: 3 },
+    });
+    expect(repository.listLinks()[0].rollups).toEqual(record.rollups);
+    repository.close();
+  });
+
+  it("should refuse clicks once maxClicks is reached", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("twice", { maxClicks: 2 }));
+    expect(repository.appendClick("twice", click)?.totalClicks).toBe(1);
+    expect(repository.appendClick("twice", click)?.totalClicks).toBe(2);
+    expect(repository.appendClick("twice", click)).toBeUndefined();
+
+    const record = repository.findByShortcode("twice");
+    expect(record).toMatchObject({ totalClicks: 2, maxClicks: 2 });
+    expect(record.clicks).toHaveLength(2);
+    expect(record.rollups.daily[click.timestamp.slice(0, 10)].total).toBe(2);
+    repository.close();
+  });
+
+  it("should store targeting rules and parsed click details", () => {
+    const repository = createSqliteRepository(":memory:");
+    const platformDestinations = {
+      ios: "myapp://open",
+      desktop: "https://x.io",
+    };
+    repository.createLink(
+      makeRecord("app", {
+        platformDestinations,
+        countryDestinations: { DE: "https://x.de" },
+        variants: [
+          { id: "A", url: "https://x.com/a", weight: 3 },
+          { id: "B", url: "https://x.com/b", weight: 1 },
+        ],
+        stickyVariants: true,
+        forwardQuery: true,
+        forwardPath: true,
+        template: true,
+        interstitial: true,
+        interstitialSeconds: 5,
+        disabled: true,
+        utm: { source: "newsletter", campaign: "spring" },
+        openGraph: { title: "App", image: "https://x.com/card.png" },
+        health: {
+          checkedAt: click.timestamp,
+          status: 404,
+          latencyMs: 12,
+          broken: true,
+        },
+      }),
+    );
+    repository.appendClick("app", {
+      ...click,
+      platform: "ios",
+      os: "iOS 17.2",
+      country: "DE",
+      city: "Berlin",
+      variant: "B",
+    });
+
+    expect(repository.findByShortcode("app")).toMatchObject({
+      platformDestinations,
+      countryDestinations: { DE: "https://x.de" },
+      variants: [
+        { id: "A", url: "https://x.com/a", weight: 3 },
+        { id: "B", url: "https://x.com/b", weight: 1 },
+      ],
+      stickyVariants: true,
+      forwardQuery: true,
+      forwardPath: true,
+      template: true,
+      interstitial: true,
+      interstitialSeconds: 5,
+      disabled: true,
+      utm: { source: "newsletter", campaign: "spring" },
+      openGraph: { title: "App", image: "https://x.com/card.png" },
+      health: {
+        checkedAt: click.timestamp,
+        status: 404,
+        latencyMs: 12,
+        broken: true,
+      },
+      clicks: [
+        {
+          platform: "ios",
+          os: "iOS 17.2",
+          country: "DE",
+          city: "Berlin",
+          variant: "B",
+        },
+      ],
+    });
+    repository.close();
+  });
+
+  it("should list links due for the background jobs from the indexes", () => {
+    const repository = createSqliteRepository(":memory:");
+    const at = (iso: string) => ({ expiryTime: iso });
+    repository.createLink(makeRecord("due", at("2026-01-01T00:00:00.000Z")));
+    repository.createLink(makeRecord("live", at("2026-03-01T00:00:00.000Z")));
+    repository.createLink(
+      makeRecord("off", {
+        ...at("2026-03-01T00:00:00.000Z"),
+        disabled: true,
+      }),
+    );
+    repository.createLink(
+      makeRecord("gone", {
+        ...at("2025-12-01T00:00:00.000Z"),
+        isExpired: true,
+        archivedAt: "2025-12-08T00:00:00.000Z",
+      }),
+    );
+    repository.appendClick("live", click);
+
+    const now = "2026-02-01T00:00:00.000Z";
+    const codes = (records: { shortcode: string }[]) =>
+      records.map((record) => record.shortcode);
+    expect(codes(repository.listLinksExpiringBy(now))).toEqual(["due"]);
+    expect(codes(repository.listActiveLinks(now))).toEqual(["live"]);
+    expect(repository.listActiveLinks(now)[0]).not.toHaveProperty("clicks");
+    expect(codes(repository.listLinksArchivedBy(now))).toEqual(["gone"]);
+    expect(repository.listLinksArchivedBy("2025-12-07T00:00:00.000Z")).toEqual(
+      [],
+    );
+    repository.close();
+
+    const { DatabaseSync } = createRequire(import.meta.url)(
+      "node:sqlite",
+    ) as typeof import("node:sqlite");
+    const db = new DatabaseSync(":memory:");
+    runMigrations(db);
+    const plan = db
+      .prepare(
+        "EXPLAIN QUERY PLAN SELECT * FROM links WHERE archived_at IS NULL AND expiry_time <= ?",
+      )
+      .all("2026-01-01T00:00:00.000Z")
+      .map((row) => String(row.detail))
+      .join("\n");
+    expect(plan).toMatch(/USING INDEX idx_links_(expiry_time|archived_at)/);
+    db.close();
+  });
+
+  it("should count expired clicks apart from totalClicks", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(
+      makeRecord("old", { expiredRedirectUrl: "https://example.com/gone" }),
+    );
+    repository.recordExpiredClick("old");
+    expect(repository.recordExpiredClick("old")).toMatchObject({
+      totalClicks: 0,
+      expiredClicks: 2,
+      expiredRedirectUrl: "https://example.com/gone",
+    });
+    repository.close();
+  });
+
+  it("should count bot visits by name apart from totalClicks", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("shared"));
+    repository.recordBotClick("shared", "Slack");
+    repository.recordBotClick("shared", 'Say "hi" bot');
+    expect(repository.recordBotClick("shared", "Slack")).toMatchObject({
+      totalClicks: 0,
+      botClicks: 3,
+      botHits: { Slack: 2, 'Say "hi" bot': 1 },
+    });
+    expect(repository.recordBotClick("missing", "Slack")).toBeUndefined();
+    repository.close();
+  });
+
+  it("should backfill rollups from existing clicks when migrating", async () => {
+    const { DatabaseSync } = await import("node:sqlite");
+    const file = tempFile();
+    const db = new DatabaseSync(file);
+    runMigrations(
+      db,
+      migrations.filter((m) => m.version < 5),
+    );
+    db.exec(`
+      INSERT INTO links (id, shortcode, original_url, shortened_url, created_at, expiry_time, validity_minutes, total_clicks)
+      VALUES ('id-old', 'old', 'https://example.com', 'http://localhost/r/old', '2026-01-01', '2027-01-01', 1, 1);
+      INSERT INTO clicks (link_id, timestamp, source, location, user_agent, ip)
+      VALUES ('id-old', '2026-01-02T08:00:00.000Z', 'Direct', 'Local', 'test', '127.0.0.1');
+    `);
+    db.close();
+
+    const repository = createSqliteRepository(file);
+    expect(
+      repository.findByShortcode("old").rollups.daily["2026-01-02"].total,
+    ).toBe(1);
+    repository.close();
+  });
+
+  it("should delete clicks together with their link", () => {
+    const repository = createSqliteRepository(":memory:");
+    repository.createLink(makeRecord("abc123"));
+    repository.appendClick("abc123", click);
+    expect(repository.deleteLink("abc123")).toBe(true);
+    expect(repository.shortcodeExists("abc123")).toBe(false);
+    expect(repository.listLinks()).toEqual([]);
+    repository.close();
+  });
+
+  it("should apply migrations once and refuse newer schemas", async () => {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(":memory:");
+    const latest = migrations[migrations.length - 1].version;
+    expect(runMigrations(db)).toBe(latest);
+    expect(runMigrations(db)).toBe(latest);
+
+    db.prepare(
+      "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+    ).run(latest + 1, "future", new Date().toISOString());
+    expect(() => runMigrations(db)).toThrow(/newer than this server supports/);
+    db.close();
+  });
+
+  it("should roll back a failing migration", async () => {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(":memory:");
+    const broken = [
+      ...migrations,
+      {
+        version: 999,
+        name: "broken",
+        up: "CREATE TABLE ok (id INTEGER); NOT VALID SQL",
+      },
+    ];
+    expect(() => runMigrations(db, broken)).toThrow(/Migration 999/);
+    expect(
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'ok'").get(),
+    ).toBeUndefined();
+    db.close();
+  });
+});
@@ -0,0 +1,447 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import { ClickData, LogEntry, UrlRecord } from "@shared/api";
+import { runMigrations } from "./migrations";
+import { buildRollups } from "../lib/rollups";
+import {
+  incrementRollups,
+  insertRollups,
+  rowsToRollups,
+} from "./sqliteRollups";
+import { LinkSummary, UrlRepository } from "./types";
+
+type ColumnType = "text" | "integer" | "boolean" | "json";
+
+interface Column<T> {
+  column: string;
+  field: keyof T;
+  type?: ColumnType;
+}
+
+// Maps UrlRecord fields to `links` columns. `clicks` live in their own table.
+const linkColumns: Column<UrlRecord>[] = [
+  { column: "id", field: "id" },
+  { column: "shortcode", field: "shortcode" },
+  { column: "original_url", field: "originalUrl" },
+  { column: "shortened_url", field: "shortenedUrl" },
+  { column: "created_at", field: "createdAt" },
+  { column: "active_from", field: "activeFrom" },
+  { column: "expiry_time", field: "expiryTime" },
+  { column: "validity_minutes", field: "validityMinutes", type: "integer" },
+  { column: "total_clicks", field: "totalClicks", type: "integer" },
+  { column: "is_expired", field: "isExpired", type: "boolean" },
+  { column: "archived_at", field: "archivedAt" },
+  { column: "password_hash", field: "passwordHash" },
+  { column: "max_clicks", field: "maxClicks", type: "integer" },
+  { column: "expired_redirect_url", field: "expiredRedirectUrl" },
+  { column: "expired_clicks", field: "expiredClicks", type: "integer" },
+  { column: "bot_clicks", field: "botClicks", type: "integer" },
+  { column: "bot_hits", field: "botHits", type: "json" },
+  {
+    column: "platform_destinations",
+    field: "platformDestinations",
+    type: "json",
+  },
+  {
+    column: "country_destinations",
+    field: "countryDestinations",
+    type: "json",
+  },
+  { column: "variants", field: "variants", type: "json" },
+  { column: "sticky_variants", field: "stickyVariants", type: "boolean" },
+  { column: "forward_query", field: "forwardQuery", type: "boolean" },
+  { column: "forward_path", field: "forwardPath", type: "boolean" },
+  { column: "template", field: "template", type: "boolean" },
+  { column: "interstitial", field: "interstitial", type: "boolean" },
+  { column: "disabled", field: "disabled", type: "boolean" },
+  {
+    column: "interstitial_seconds",
+    field: "interstitialSeconds",
+    type: "integer",
+  },
+  { column: "utm", field: "utm", type: "json" },
+  { column: "open_graph", field: "openGraph", type: "json" },
+  { column: "health", field: "health", type: "json" },
+  { column: "redirect_type", field: "redirectType", type: "integer" },
+  { column: "cache_policy", field: "cachePolicy" },
+  {
+    column: "cache_max_age_seconds",
+    field: "cacheMaxAgeSeconds",
+    type: "integer",
+  },
+];
+
+const clickColumns: Column<ClickData>[] = [
+  { column: "timestamp", field: "timestamp" },
+  { column: "source", field: "source" },
+  { column: "location", field: "location" },
+  { column: "user_agent", field: "userAgent" },
+  { column: "ip", field: "ip" },
+  { column: "platform", field: "platform" },
+  { column: "os", field: "os" },
+  { column: "country", field: "country" },
+  { column: "region", field: "region" },
+  { column: "city", field: "city" },
+  { column: "variant", field: "variant" },
+];
+
+const logColumns: Column<LogEntry>[] = [
+  { column: "timestamp", field: "timestamp" },
+  { column: "action", field: "action" },
+  { column: "user_id", field: "userId" },
+  { column: "shortcode", field: "shortcode" },
+  { column: "original_url", field: "originalUrl" },
+  { column: "ip", field: "ip" },
+  { column: "user_agent", field: "userAgent" },
+  { column: "details", field: "details", type: "json" },
+];
+
+const toColumnValue = (
+  value: unknown,
+  type: ColumnType = "text",
+): SQLInputValue => {
+  if (value === undefined || value === null) return null;
+  switch (type) {
+    case "boolean":
+      return value ? 1 : 0;
+    case "json":
+      return JSON.stringify(value);
+    case "integer":
+      return Number(value);
+    default:
+      return String(value);
+  }
+};
+
+const fromColumnValue = (value: unknown, type: ColumnType = "text") => {
+  if (value === null || value === undefined) return undefined;
+  switch (type) {
+    case "boolean":
+      return Boolean(value);
+    case "json":
+      return JSON.parse(String(value));
+    case "integer":
+      return Number(value);
+    default:
+      return value;
+  }
+};
+
+const fromRow = <T>(columns: Column<T>[], row: Record<string, unknown>): T => {
+  const result = {} as T;
+  for (const { column, field, type } of columns) {
+    const value = fromColumnValue(row[column], type);
+    if (value !== undefined) result[field] = value;
+  }
+  return result;
+};
+
+const toRow = <T>(columns: Column<T>[], source: Partial<T>) => {
+  const row: Record<string, SQLInputValue> = {};
+  for (const { column, field, type } of columns) {
+    // undefined means "not provided"; pass null to clear a column
+    if (source[field] !== undefined) {
+      row[column] = toColumnValue(source[field], type);
+    }
+  }
+  return row;
+};
+
+const insertSql = (table: string, row: Record<string, SQLInputValue>) => {
+  const names = Object.keys(row);
+  return `INSERT INTO ${table} (${names.join(", ")}) VALUES (${names
+    .map((name) => `$${name}`)
+    .join(", ")})`;
+};
+
+export const SQLITE_UNAVAILABLE = `STORAGE_DRIVER=sqlite needs node:sqlite, available without flags from Node 22.13 (running ${process.version}); upgrade Node or use the memory or journal driver`;
+
+// node:sqlite ships with Node 22.13+; load it lazily so other drivers keep
+// working on older runtimes.
+const openDatabase = (file: string): DatabaseSync => {
+  const require = createRequire(import.meta.url);
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = require("node:sqlite");
+  } catch {
+    throw new Error(SQLITE_UNAVAILABLE);
+  }
+  const { DatabaseSync } = sqlite;
+  if (file !== ":memory:") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new DatabaseSync(file);
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA foreign_keys = ON");
+  return db;
+};
+
+export interface SqliteRepositoryOptions {
+  // Older log rows are deleted once the table holds more than this
+  maxLogs?: number;
+  // Raw clicks kept per link; older clicks only survive in the rollups
+  maxClicksPerLink?: number;
+}
+
+// Durable single-node storage backed by a SQLite file.
+export function createSqliteRepository(
+  file: string,
+  options: SqliteRepositoryOptions = {},
+): UrlRepository {
+  const maxLogs = options.maxLogs ?? 1000;
+  const maxClicks = options.maxClicksPerLink ?? 100;
+  const db = openDatabase(file);
+  runMigrations(db);
+
+  const selectLink = db.prepare("SELECT * FROM links WHERE shortcode = ?");
+  const selectClicks = db.prepare(
+    "SELECT * FROM clicks WHERE link_id = ? ORDER BY id",
+  );
+  const selectRollups = db.prepare(
+    "SELECT * FROM click_rollups WHERE link_id = ?",
+  );
+  const existsLink = db.prepare("SELECT 1 FROM links WHERE shortcode = ?");
+  const trimClicks = db.prepare(
+    `DELETE FROM clicks WHERE link_id = $linkId AND id NOT IN (
+       SELECT id FROM clicks WHERE link_id = $linkId ORDER BY id DESC LIMIT $keep
+     )`,
+  );
+
+  const transaction = <T>(work: () => T): T => {
+    db.exec("BEGIN");
+    try {
+      const result = work();
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  const hydrate = (row: Record<string, unknown> | undefined) => {
+    if (!row) return undefined;
+    const record = fromRow(linkColumns, row);
+    record.clicks = selectClicks
+      .all(record.id)
+      .map((click) => fromRow(clickColumns, click));
+    record.rollups = rowsToRollups(selectRollups.all(record.id));
+    return record;
+  };
+
+  const load = (shortcode: string): UrlRecord | undefined =>
+    hydrate(selectLink.get(shortcode));
+
+  // Loads matching links plus their clicks in two queries
+  const listWhere = (condition: string): UrlRecord[] => {
+    const clicksByLink = new Map<string, ClickData[]>();
+    const clickRows = db
+      .prepare(
+        `SELECT clicks.* FROM clicks JOIN links ON links.id = clicks.link_id
+         WHERE links.${condition} ORDER BY clicks.id`,
+      )
+      .all();
+    for (const row of clickRows) {
+      const linkId = String(row.link_id);
+      if (!clicksByLink.has(linkId)) clicksByLink.set(linkId, []);
+      clicksByLink.get(linkId).push(fromRow(clickColumns, row));
+    }
+    const rollupRowsByLink = new Map<string, Record<string, unknown>[]>();
+    const rollupRows = db
+      .prepare(
+        `SELECT click_rollups.* FROM click_rollups
+         JOIN links ON links.id = click_rollups.link_id
+         WHERE links.${condition}`,
+      )
+      .all();
+    for (const row of rollupRows) {
+      const linkId = String(row.link_id);
+      if (!rollupRowsByLink.has(linkId)) rollupRowsByLink.set(linkId, []);
+      rollupRowsByLink.get(linkId).push(row);
+    }
+    return db
+      .prepare(
+        `SELECT * FROM links WHERE ${condition} ORDER BY created_at, rowid`,
+      )
+      .all()
+      .map((row) => {
+        const record = fromRow(linkColumns, row);
+        record.clicks = clicksByLink.get(record.id) ?? [];
+        record.rollups = rowsToRollups(rollupRowsByLink.get(record.id) ?? []);
+        return record;
+      });
+  };
+
+  // Link rows only, for scans that don't need click history
+  const summariesWhere = (
+    condition: string,
+    params: Record<string, SQLInputValue>,
+  ): LinkSummary[] =>
+    db
+      .prepare(
+        `SELECT * FROM links WHERE ${condition} ORDER BY created_at, rowid`,
+      )
+      .all(params)
+      .map((row) => fromRow(linkColumns, row));
+
+  const insertClick = (linkId: string, click: ClickData) => {
+    const row = { link_id: linkId, ...toRow(clickColumns, click) };
+    db.prepare(insertSql("clicks", row)).run(row);
+  };
+
+  return {
+    createLink(record) {
+      transaction(() => {
+        const row = toRow(linkColumns, record);
+        db.prepare(insertSql("links", row)).run(row);
+        record.clicks
+          .slice(-maxClicks)
+          .forEach((click) => insertClick(record.id, click));
+        insertRollups(
+          db,
+          record.id,
+          record.rollups ?? buildRollups(record.clicks),
+        );
+      });
+      return load(record.shortcode);
+    },
+
+    findByShortcode(shortcode) {
+      return load(shortcode);
+    },
+
+    findById(id) {
+      return hydrate(db.prepare("SELECT * FROM links WHERE id = ?").get(id));
+    },
+
+    findByOriginalUrl(originalUrl) {
+      return db
+        .prepare(
+          "SELECT * FROM links WHERE original_url = ? ORDER BY created_at, rowid",
+        )
+        .all(originalUrl)
+        .map(hydrate);
+    },
+
+    updateLink(shortcode, changes) {
+      const { id: _id, shortcode: _shortcode, ...rest } = changes;
+      const row = toRow(linkColumns, rest);
+      const names = Object.keys(row);
+      if (names.length > 0) {
+        db.prepare(
+          `UPDATE links SET ${names
+            .map((name) => `${name} = $${name}`)
+            .join(", ")} WHERE shortcode = $shortcode`,
+        ).run({ ...row, shortcode });
+      }
+      return load(shortcode);
+    },
+
+    listLinks() {
+      return listWhere("archived_at IS NULL");
+    },
+
+    listArchivedLinks() {
+      return listWhere("archived_at IS NOT NULL");
+    },
+
+    listLinksExpiringBy(time) {
+      return summariesWhere("archived_at IS NULL AND expiry_time <= $time", {
+        time,
+      });
+    },
+
+    listLinksArchivedBy(time) {
+      return summariesWhere("archived_at <= $time", { time });
+    },
+
+    listActiveLinks(time) {
+      return summariesWhere(
+        `archived_at IS NULL AND expiry_time > $time
+         AND NOT coalesce(is_expired, 0) AND NOT coalesce(disabled, 0)`,
+        { time },
+      );
+    },
+
+    deleteLink(shortcode) {
+      const result = db
+        .prepare("DELETE FROM links WHERE shortcode = ?")
+        .run(shortcode);
+      return Number(result.changes) > 0;
+    },
+
+    shortcodeExists(shortcode) {
+      return existsLink.get(shortcode) !== undefined;
+    },
+
+    appendClick(shortcode, click) {
+      const row = selectLink.get(shortcode);
+      if (!row) return undefined;
+      const recorded = transaction(() => {
+        // Bump the counter first so a link at its limit records nothing
+        const { changes } = db
+          .prepare(
+            "UPDATE links SET total_clicks = total_clicks + 1 WHERE id = ? AND (max_clicks IS NULL OR total_clicks < max_clicks)",
+          )
+          .run(String(row.id));
+        if (Number(changes) === 0) return false;
+        insertClick(String(row.id), click);
+        trimClicks.run({ linkId: String(row.id), keep: maxClicks });
+        incrementRollups(db, String(row.id), click);
+        return true;
+      });
+      return recorded ? load(shortcode) : undefined;
+    },
+
+    recordExpiredClick(shortcode) {
+      db.prepare(
+        "UPDATE links SET expired_clicks = expired_clicks + 1 WHERE shortcode = ?",
+      ).run(shortcode);
+      return load(shortcode);
+    },
+
+    recordBotClick(shortcode, bot) {
+      // One statement, so concurrent hits cannot lose a count
+      const path = `$.${JSON.stringify(bot)}`;
+      db.prepare(
+        `UPDATE links SET
+           bot_clicks = bot_clicks + 1,
+           bot_hits = json_set(
+             COALESCE(bot_hits, '{}'), $path,
+             COALESCE(json_extract(bot_hits, $path), 0) + 1
+           )
+         WHERE shortcode = $shortcode`,
+      ).run({ path, shortcode });
+      return load(shortcode);
+    },
+
+    appendLog(entry) {
+      const row = toRow(logColumns, entry);
+      const { lastInsertRowid } = db.prepare(insertSql("logs", row)).run(row);
+      db.prepare("DELETE FROM logs WHERE id <= ?").run(
+        Number(lastInsertRowid) - maxLogs,
+      );
+    },
+
+    listLogs(limit) {
+      return db
+        .prepare(
+          "SELECT * FROM (SELECT * FROM logs ORDER BY id DESC LIMIT ?) ORDER BY id",
+        )
+        .all(limit)
+        .map((row) => fromRow(logColumns, row));
+    },
+
+    countLogs() {
+      return Number(
+        db.prepare("SELECT COUNT(*) AS total FROM logs").get().total,
+      );
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import type { DatabaseSync } from "node:sqlite";
+import { ClickData, ClickRollups, RollupCounters } from "@shared/api";
+import {
+  DAILY_RETENTION,
+  HOURLY_RETENTION,
+  clickDimensions,
+  dayBucket,
+  emptyCounters,
+  emptyRollups,
+  hourBucket,
+} from "../lib/rollups";
+
+// One row per (link, granularity, bucket, dimension, key). The link total
+// for a bucket is stored under dimension "total" with an empty key.
+export interface RollupRow {
+  granularity: "hour" | "day";
+  bucket: string;
+  dimension: "total" | "source" | "location" | "device" | "variant";
+  key: string;
+  count: number;
+}
+
+const FIELDS = {
+  source: "bySource",
+  location: "byLocation",
+  device: "byDevice",
+  variant: "byVariant",
+} as const;
+
+export const rollupsToRows = (rollups: ClickRollups): RollupRow[] => {
+  const rows: RollupRow[] = [];
+  const add = (
+    granularity: RollupRow["granularity"],
+    buckets: Record<string, RollupCounters>,
+  ) => {
+    for (const [bucket, counters] of Object.entries(buckets)) {
+      rows.push({
+        granularity,
+        bucket,
+        dimension: "total",
+        key: "",
+        count: counters.total,
+      });
+      for (const [dimension, field] of Object.entries(FIELDS)) {
+        for (const [key, count] of Object.entries(counters[field] ?? {})) {
+          rows.push({
+            granularity,
+            bucket,
+            dimension: dimension as RollupRow["dimension"],
+            key,
+            count,
+          });
+        }
+      }
+    }
+  };
+  add("hour", rollups.hourly);
+  add("day", rollups.daily);
+  return rows;
+};
+
+export const rowsToRollups = (
+  rows: Record<string, unknown>[],
+): ClickRollups => {
+  const rollups = emptyRollups();
+  for (const row of rows) {
+    const target = row.granularity === "hour" ? rollups.hourly : rollups.daily;
+    const bucket = String(row.bucket);
+    const counters = (target[bucket] ??= emptyCounters());
+    const count = Number(row.count);
+    if (row.dimension === "total") {
+      counters.total = count;
+    } else {
+      const field = FIELDS[String(row.dimension) as keyof typeof FIELDS];
+      (counters[field] ??= {})[String(row.key)] = count;
+    }
+  }
+  return rollups;
+};
+
+export const insertRollups = (
+  db: DatabaseSync,
+  linkId: string,
+  rollups: ClickRollups,
+) => {
+  const insert = db.prepare(
+    `INSERT INTO click_rollups (link_id, granularity, bucket, dimension, key, count)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+  for (const row of rollupsToRows(rollups)) {
+    insert.run(
+      linkId,
+      row.granularity,
+      row.bucket,
+      row.dimension,
+      row.key,
+      row.count,
+    );
+  }
+};
+
+// Counts one click in both granularities and drops buckets past retention
+export const incrementRollups = (
+  db: DatabaseSync,
+  linkId: string,
+  click: ClickData,
+) => {
+  const upsert = db.prepare(
+    `INSERT INTO click_rollups (link_id, granularity, bucket, dimension, key, count)
+     VALUES (?, ?, ?, ?, ?, 1)
+     ON CONFLICT (link_id, granularity, bucket, dimension, key)
+     DO UPDATE SET count = count + 1`,
+  );
+  const prune = db.prepare(
+    `DELETE FROM click_rollups
+     WHERE link_id = $linkId AND granularity = $granularity AND bucket NOT IN (
+       SELECT DISTINCT bucket FROM click_rollups
+       WHERE link_id = $linkId AND granularity = $granularity
+       ORDER BY bucket DESC LIMIT $keep
+     )`,
+  );
+
+  const dimensions = clickDimensions(click);
+  const buckets = [
+    ["hour", hourBucket(click.timestamp), HOURLY_RETENTION],
+    ["day", dayBucket(click.timestamp), DAILY_RETENTION],
+  ] as const;
+
+  for (const [granularity, bucket, keep] of buckets) {
+    upsert.run(linkId, granularity, bucket, "total", "");
+    for (const [dimension, key] of Object.entries(dimensions)) {
+      if (key === undefined) continue;
+      upsert.run(linkId, granularity, bucket, dimension, key);
+    }
+    prune.run({ linkId, granularity, keep });
+  }
+};
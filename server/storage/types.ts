@@ -0,0 +1,58 @@
+import { ClickData, LogEntry, UrlRecord } from "@shared/api";
+
+// Link fields without clicks or rollups, for background jobs that scan many
+// links and don't need click history
+export type LinkSummary = Omit<UrlRecord, "clicks" | "rollups">;
+
+/**
+ * Storage contract for the URL shortener. Route handlers only talk to this
+ * interface, so the backing store can be swapped via configuration.
+ *
+ * Records returned from a repository are copies: mutate them through
+ * `updateLink`/`appendClick` rather than in place.
+ */
+export interface UrlRepository {
+  createLink(record: UrlRecord): UrlRecord;
+  findByShortcode(shortcode: string): UrlRecord | undefined;
+  findById(id: string): UrlRecord | undefined;
+  // Every link pointing at the given destination, oldest first
+  findByOriginalUrl(originalUrl: string): UrlRecord[];
+  updateLink(
+    shortcode: string,
+    changes: Partial<UrlRecord>,
+  ): UrlRecord | undefined;
+  // Links that have not been archived
+  listLinks(): UrlRecord[];
+  listArchivedLinks(): UrlRecord[];
+  // Queries for background jobs; `time` is an ISO timestamp and durable
+  // drivers answer them from the expiry_time/archived_at indexes.
+  // Unarchived links whose expiryTime is at or before `time`
+  listLinksExpiringBy(time: string): LinkSummary[];
+  // Archived links whose archivedAt is at or before `time`
+  listLinksArchivedBy(time: string): LinkSummary[];
+  // Links that redirect at `time`: unarchived, unexpired and not disabled
+  listActiveLinks(time: string): LinkSummary[];
+  deleteLink(shortcode: string): boolean;
+  shortcodeExists(shortcode: string): boolean;
+
+  // Records a click and bumps the link's totalClicks counter. Returns
+  // undefined without recording anything once a link has used up its
+  // maxClicks; the check and the increment happen atomically.
+  appendClick(shortcode: string, click: ClickData): UrlRecord | undefined;
+  // Bumps expiredClicks for a visit to a link that no longer redirects
+  recordExpiredClick(shortcode: string): UrlRecord | undefined;
+  // Counts an automated request under botClicks/botHits. Bots never use up
+  // maxClicks, so this succeeds whatever the link's click limit.
+  recordBotClick(shortcode: string, bot: string): UrlRecord | undefined;
+
+  appendLog(entry: LogEntry): void;
+  listLogs(limit: number): LogEntry[];
+  countLogs(): number;
+
+  // Releases any underlying handles (files, database connections)
+  close(): void;
+}
+
+// "sqlite" needs node:sqlite (Node 22.13+); the others run on any supported
+// Node version
+export type StorageDriver = "memory" | "sqlite" | "journal";
@@ -0,0 +1,51 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { UrlRecord } from "@shared/api";
+import { createServer, ServerOptions } from "./index";
+import { loadConfig } from "./config";
+import { createMemoryRepository } from "./storage/memory";
+
+export interface TestServer {
+  baseUrl: string;
+  repository: ReturnType<typeof createMemoryRepository>;
+  close: () => Promise<void>;
+}
+
+// Starts the app on an ephemeral port with an in-memory repository and a
+// config built from `env` only (never the real process environment).
+export async function startTestServer(
+  env: NodeJS.ProcessEnv = {},
+  options: ServerOptions = {},
+): Promise<TestServer> {
+  const repository = createMemoryRepository();
+  const app = createServer({ config: loadConfig(env), repository, ...options });
+  const server: Server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    repository,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+export const makeRecord = (
+  shortcode: string,
+  overrides: Partial<UrlRecord> = {},
+): UrlRecord => ({
+  id: `id-${shortcode}`,
+  originalUrl: `https://example.com/${shortcode}`,
+  shortcode,
+  shortenedUrl: `http://localhost/r/${shortcode}`,
+  createdAt: new Date().toISOString(),
+  expiryTime: new Date(Date.now() + 60_000).toISOString(),
+  validityMinutes: 1,
+  totalClicks: 0,
+  clicks: [],
+  isExpired: false,
+  ...overrides,
+});
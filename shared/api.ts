@@ -4,15 +4,123 @@ export interface DemoResponse {
 }
 
 // URL Shortener API types
+
+// HTTP status used when /r/:shortcode redirects
+export type RedirectType = 301 | 302 | 307 | 308;
+
+// Cache-Control policy sent with the redirect. Anything other than
+// "no-store" lets browsers skip the server (and analytics) on repeat visits.
+export type CachePolicy = "no-store" | "private" | "public";
+
+// Operating system family parsed from a visitor's User-Agent
+export type Platform =
+  | "ios"
+  | "android"
+  | "windows"
+  | "macos"
+  | "linux"
+  | "chromeos"
+  | "other";
+
+// Per-platform destinations (web pages, store listings, app deep links).
+// Visitors on other platforms get originalUrl.
+export interface PlatformDestinations {
+  ios?: string;
+  android?: string;
+  // Windows, macOS, Linux and ChromeOS
+  desktop?: string;
+}
+
+// One arm of an A/B split; visitors are spread across variants by weight
+export interface DestinationVariant {
+  // Short label such as "A" or "B"; recorded on each click
+  id: string;
+  url: string;
+  weight: number;
+}
+
+// Destinations keyed by ISO 3166-1 alpha-2 country code, e.g. { DE: "..." }
+export type CountryDestinations = Record<string, string>;
+
+// Defaults for the utm_* parameters added to http(s) destinations
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+// Card shown when the short link is pasted into chat apps and social sites
+export interface OpenGraphOverrides {
+  title?: string;
+  description?: string;
+  // Absolute http(s) URL
+  image?: string;
+}
+
+// Last background check of a link's originalUrl
+export interface LinkHealth {
+  checkedAt: string;
+  // HTTP status after redirects; unset when the request failed
+  status?: number;
+  latencyMs: number;
+  // Where redirects ended up, when that differs from originalUrl
+  finalUrl?: string;
+  // Network error or timeout
+  error?: string;
+  // Why the destination was not requested at all, e.g. it is on a private
+  // network; such links are not broken, just unchecked
+  skipped?: string;
+  // 4xx/5xx or unreachable
+  broken: boolean;
+}
+
 export interface ShortenUrlRequest {
   originalUrl: string;
-  validityMinutes: number;
+  // Counted from activeFrom when set; ignored when expiryTime is given
+  validityMinutes?: number;
+  // ISO timestamps bounding when the link redirects
+  activeFrom?: string;
+  expiryTime?: string;
   customShortcode?: string;
+  // Visitors must enter this before being redirected
+  password?: string;
+  // Link expires after this many successful redirects (1 = one-time link)
+  maxClicks?: number;
+  // Where visitors go once the link has expired
+  expiredRedirectUrl?: string;
+  platformDestinations?: PlatformDestinations;
+  countryDestinations?: CountryDestinations;
+  // Replaces originalUrl for visitors without a platform or country match;
+  // ids default to "A", "B", ... in order
+  variants?: (Omit<DestinationVariant, "id"> & { id?: string })[];
+  // Keep returning visitors on the same variant (via a cookie)
+  stickyVariants?: boolean;
+  // Merge the visitor's query string (/r/abc?ref=x) into the destination
+  forwardQuery?: boolean;
+  // Resolve /r/docs/api/v2 as docs with /api/v2 appended to the destination
+  forwardPath?: boolean;
+  // originalUrl has placeholders filled from the path: {1}, {2}, ... or {*},
+  // e.g. https://tracker.example.com/issues/{1} for /r/jira/ABC-123
+  template?: boolean;
+  // Always show a page naming the destination, with a continue button
+  interstitial?: boolean;
+  // Continue automatically after this many seconds (1-60)
+  interstitialSeconds?: number;
+  utm?: UtmParams;
+  // Link unfurlers get these instead of following the redirect
+  openGraph?: OpenGraphOverrides;
+  redirectType?: RedirectType;
+  cachePolicy?: CachePolicy;
+  // max-age for "private"/"public" policies
+  cacheMaxAgeSeconds?: number;
 }
 
 export interface ShortenUrlResponse {
   shortenedUrl: string;
   shortcode: string;
+  activeFrom?: string;
   expiryTime: string;
   originalUrl: string;
 }
@@ -23,6 +131,32 @@ export interface ClickData {
   location: string;
   userAgent: string;
   ip: string;
+  // Parsed from userAgent when the click was recorded
+  platform?: Platform;
+  os?: string;
+  // From the GeoIP database; location summarises them
+  country?: string;
+  region?: string;
+  city?: string;
+  // DestinationVariant id, for A/B split links
+  variant?: string;
+}
+
+// Click counts for one hour or day bucket
+export interface RollupCounters {
+  total: number;
+  bySource: Record<string, number>;
+  byLocation: Record<string, number>;
+  byDevice: Record<string, number>;
+  // Only present for links with A/B variants
+  byVariant?: Record<string, number>;
+}
+
+// Pre-aggregated click counts keyed by UTC bucket:
+// "2026-01-31T14" for hours, "2026-01-31" for days
+export interface ClickRollups {
+  hourly: Record<string, RollupCounters>;
+  daily: Record<string, RollupCounters>;
 }
 
 export interface UrlRecord {
@@ -31,28 +165,105 @@ export interface UrlRecord {
   shortcode: string;
   shortenedUrl: string;
   createdAt: string;
+  // Link does not redirect before this time
+  activeFrom?: string;
   expiryTime: string;
   validityMinutes: number;
   totalClicks: number;
+  // Most recent clicks only; older ones survive as rollups
   clicks: ClickData[];
+  rollups?: ClickRollups;
   isExpired: boolean;
+  // Set by the expiry sweeper once a link has been expired past retention
+  archivedAt?: string;
+  maxClicks?: number;
+  expiredRedirectUrl?: string;
+  platformDestinations?: PlatformDestinations;
+  countryDestinations?: CountryDestinations;
+  variants?: DestinationVariant[];
+  stickyVariants?: boolean;
+  forwardQuery?: boolean;
+  forwardPath?: boolean;
+  template?: boolean;
+  interstitial?: boolean;
+  interstitialSeconds?: number;
+  utm?: UtmParams;
+  openGraph?: OpenGraphOverrides;
+  health?: LinkHealth;
+  // Turned off by an admin; visitors get a "Link Disabled" page
+  disabled?: boolean;
+  // Visits after expiry; not part of totalClicks
+  expiredClicks?: number;
+  // Unfurlers, crawlers, monitors, HEAD requests and prefetches; never part
+  // of totalClicks. botHits counts them by bot name.
+  botClicks?: number;
+  botHits?: Record<string, number>;
+  // scrypt hash; never sent to the browser
+  passwordHash?: string;
+  // Set instead of passwordHash in API responses
+  passwordProtected?: boolean;
+  redirectType?: RedirectType;
+  cachePolicy?: CachePolicy;
+  cacheMaxAgeSeconds?: number;
+}
+
+// A click as listed on the statistics page; never the visitor's IP or
+// user agent
+export type RecentClick = Pick<
+  ClickData,
+  "timestamp" | "source" | "location" | "platform" | "os" | "variant"
+>;
+
+// A link on the statistics page: counters built from its rollups instead of
+// every raw click and bucket
+export interface LinkStatistics
+  extends Omit<
+    UrlRecord,
+    "clicks" | "rollups" | "passwordHash" | "originalUrl"
+  > {
+  // Left out, like every other destination, for password-protected and
+  // click-limited links
+  originalUrl?: string;
+  // Summed over the daily rollups, so it covers the last 400 days
+  breakdown: RollupCounters;
+  // Newest first
+  recentClicks: RecentClick[];
 }
 
 export interface StatisticsResponse {
-  urls: UrlRecord[];
+  urls: LinkStatistics[];
   totalUrls: number;
   totalClicks: number;
   activeUrls: number;
 }
 
+// PATCH /api/admin/links/:shortcode
+export interface UpdateLinkRequest {
+  disabled: boolean;
+}
+
+export interface UnlockRequest {
+  password: string;
+}
+
 export interface RedirectResponse {
   originalUrl: string;
   success: boolean;
+  // originalUrl is the expiry fallback rather than the link's destination
+  expired?: boolean;
+  // A/B variant id when the link splits traffic
+  variant?: string;
+  redirectType?: RedirectType;
+  cacheControl?: string;
 }
 
 export interface ErrorResponse {
   error: string;
   code?: string;
+  // Set for links that are not active yet
+  activeFrom?: string;
+  // Path segments a template link needs
+  requiredSegments?: number;
 }
 
 export interface LogEntry {